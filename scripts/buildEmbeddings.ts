@@ -0,0 +1,74 @@
+/**
+ * Precompute the visual search feature vector of every catalog product image
+ * and write them to /public/embeddings. The file isn't committed: until it
+ * is built, browsers embed the whole catalog themselves before their first
+ * visual or blended search.
+ *
+ * Run it after `npm run models:download`, and again after
+ * `npm run catalog:import` or changing the classifier; products whose image
+ * changed since are embedded in the browser instead.
+ *
+ * Usage:
+ *   npm run embeddings:build
+ */
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import { getClassifierConfig, getEmbeddingsUrl } from "@/config/classifier";
+import { products } from "@/data/products";
+import type { EmbeddingsFile } from "@/utils/embeddingIndex";
+import { embedImageOnServer } from "@/utils/serverClassifier";
+
+const PUBLIC_DIR = path.join(__dirname, "..", "public");
+
+// Plenty for cosine similarity, and keeps the file a fraction of the size
+const DECIMALS = 5;
+
+async function fetchImage(url: string): Promise<Uint8Array> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`GET ${url} failed with ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+async function main(): Promise<void> {
+  const config = getClassifierConfig();
+  const targetPath = path.join(PUBLIC_DIR, getEmbeddingsUrl(config));
+  console.log(`Embedding ${products.length} products with ${config.name}`);
+
+  const file: EmbeddingsFile = { classifier: config.name, products: {} };
+  let failed = 0;
+  for (const product of products) {
+    try {
+      const embedding = await embedImageOnServer(
+        await fetchImage(product.image)
+      );
+      file.products[product.id] = {
+        image: product.image,
+        embedding: embedding.map((value) => Number(value.toFixed(DECIMALS))),
+      };
+    } catch (error) {
+      failed++;
+      console.error(
+        `Product ${product.id}: ${(error as Error).message ?? error}`
+      );
+    }
+  }
+
+  if (failed === products.length) {
+    throw new Error("No product could be embedded; nothing written");
+  }
+  mkdirSync(path.dirname(targetPath), { recursive: true });
+  writeFileSync(targetPath, `${JSON.stringify(file)}\n`);
+  console.log(
+    `${products.length - failed} embeddings written to ${targetPath}, ${failed} failed`
+  );
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
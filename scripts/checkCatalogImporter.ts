@@ -0,0 +1,193 @@
+/**
+ * Table-driven checks for the catalog importer: CSV quoting, missing
+ * columns and cells, invalid prices, the other per-row validations and
+ * label taxonomy aliases for categories the catalog lacks.
+ * Exits non-zero when any check fails.
+ *
+ * Usage:
+ *   npm run check:importer
+ */
+import { Check, runChecks } from "@/evaluation/checks";
+import { importCatalog, parseCsv } from "@/utils/catalogImporter";
+
+const HEADER = "id,name,category,tags,image,price,description";
+const IMAGE = "https://example.com/lamp.jpg";
+
+function csv(...rows: string[]): string {
+  return [HEADER, ...rows].join("\n");
+}
+
+const checks: Check[] = [
+  {
+    name: "quoted commas stay in one field",
+    run: () => parseCsv('a,b\n"Lamp, desk","x,y"'),
+    expected: [{ a: "Lamp, desk", b: "x,y" }],
+  },
+  {
+    name: "escaped quotes inside quoted fields",
+    run: () => parseCsv('a\n"27"" monitor"'),
+    expected: [{ a: '27" monitor' }],
+  },
+  {
+    name: "quoted fields span line breaks",
+    run: () => parseCsv('a,b\n"two\nlines",x'),
+    expected: [{ a: "two\nlines", b: "x" }],
+  },
+  {
+    name: "CRLF line endings and blank lines",
+    run: () => parseCsv("a,b\r\n1,2\r\n\r\n3,4\r\n"),
+    expected: [
+      { a: "1", b: "2" },
+      { a: "3", b: "4" },
+    ],
+  },
+  {
+    name: "short rows fill missing cells with empty strings",
+    run: () => parseCsv("a,b,c\n1"),
+    expected: [{ a: "1", b: "", c: "" }],
+  },
+  {
+    name: "header only",
+    run: () => parseCsv(HEADER),
+    expected: [],
+  },
+  {
+    name: "valid CSV row with a quoted name and description",
+    run: () =>
+      importCatalog(
+        csv(
+          `7,"Lamp, desk",Home,Lamp|Light; lamp,${IMAGE},12.50,"Bright, small"`
+        ),
+        "csv"
+      ),
+    expected: {
+      products: [
+        {
+          id: 7,
+          name: "Lamp, desk",
+          category: "home",
+          tags: ["lamp", "light"],
+          price: 12.5,
+          description: "Bright, small",
+        },
+      ],
+      errors: [],
+      duplicateTagsRemoved: 1,
+    },
+  },
+  {
+    name: "missing price column",
+    run: () =>
+      importCatalog(
+        `id,name,category,tags,image\n1,Lamp,home,lamp,${IMAGE}`,
+        "csv"
+      ),
+    expected: {
+      products: [],
+      errors: [{ row: 1, field: "price" }],
+    },
+  },
+  {
+    name: "missing cells on a short row",
+    run: () => importCatalog(csv("1,Lamp"), "csv"),
+    expected: {
+      products: [],
+      errors: [
+        { row: 1, field: "category" },
+        { row: 1, field: "image" },
+        { row: 1, field: "price" },
+      ],
+    },
+  },
+  ...["abc", "-5", "$10", "1,000"].map((price): Check => ({
+    name: `bad price ${JSON.stringify(price)}`,
+    run: () =>
+      importCatalog(csv(`1,Lamp,home,lamp,${IMAGE},"${price}",`), "csv").errors,
+    expected: [{ row: 1, field: "price" }],
+  })),
+  {
+    name: "numeric string and zero prices",
+    run: () =>
+      importCatalog(
+        JSON.stringify([
+          { id: 1, name: "A", category: "x", image: IMAGE, price: "9.99" },
+          { id: 2, name: "B", category: "x", image: IMAGE, price: 0 },
+        ]),
+        "json"
+      ).products.map((product) => product.price),
+    expected: [9.99, 0],
+  },
+  {
+    name: "non-integer and negative ids",
+    run: () =>
+      importCatalog(csv(`1.5,A,x,,${IMAGE},1,`, `-2,B,x,,${IMAGE},1,`), "csv")
+        .errors,
+    expected: [
+      { row: 1, field: "id" },
+      { row: 2, field: "id" },
+    ],
+  },
+  {
+    name: "duplicate ids keep the first row",
+    run: () =>
+      importCatalog(csv(`1,A,x,,${IMAGE},1,`, `1,B,x,,${IMAGE},2,`), "csv"),
+    expected: {
+      products: [{ id: 1, name: "A" }],
+      errors: [{ row: 2, field: "id" }],
+    },
+  },
+  {
+    name: "non-http image URL",
+    run: () =>
+      importCatalog(csv("1,A,x,,ftp://example.com/a.jpg,1,"), "csv").errors,
+    expected: [{ row: 1, field: "image" }],
+  },
+  {
+    name: "JSON tags that aren't strings",
+    run: () =>
+      importCatalog(
+        JSON.stringify([
+          {
+            id: 1,
+            name: "A",
+            category: "x",
+            image: IMAGE,
+            price: 1,
+            tags: [1],
+          },
+        ]),
+        "json"
+      ).errors,
+    expected: [{ row: 1, field: "tags" }],
+  },
+  {
+    name: "JSON rows that aren't objects",
+    run: () => importCatalog("[1, null]", "json").errors,
+    expected: [{ row: 1 }, { row: 2 }],
+  },
+  {
+    name: "JSON feed that isn't an array",
+    run: () => importCatalog('{"id": 1}', "json").errors,
+    expected: [{ row: 0, message: "JSON feed must be an array of products" }],
+  },
+  {
+    name: "alias categories the catalog lacks are reported",
+    run: () =>
+      importCatalog(
+        csv(`1,Dog bed,Pets,,${IMAGE},30,`, `2,Mug,kitchen,,${IMAGE},8,`),
+        "csv"
+      ).unknownAliasCategories.filter((category) =>
+        ["pets", "kitchen", "garden"].includes(category)
+      ),
+    expected: ["garden"],
+  },
+  {
+    name: "invalid JSON",
+    run: () => importCatalog("[{", "json"),
+    expected: { products: [], errors: [{ row: 0 }] },
+  },
+];
+
+if (runChecks("Catalog importer", checks) > 0) {
+  process.exit(1);
+}
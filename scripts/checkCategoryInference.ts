@@ -0,0 +1,83 @@
+/**
+ * Table-driven checks for category inference, including catalogs that lack
+ * categories the label taxonomy points at. Exits non-zero when any check
+ * fails.
+ *
+ * Usage:
+ *   npm run check:categories
+ */
+import { products } from "@/data/products";
+import { Check, runChecks } from "@/evaluation/checks";
+import { Prediction } from "@/utils/imageClassifier";
+import { findMatchingProducts } from "@/utils/productMatcher";
+
+const WITHOUT_PETS = products.filter((product) => product.category !== "pets");
+
+function label(className: string, probability: number = 0.9): Prediction[] {
+  return [{ className, probability }];
+}
+
+/**
+ * Inferred categories and guess, with the matcher's debug logging silenced
+ */
+function infer(predictions: Prediction[], catalog = products) {
+  const { log, time, timeEnd } = console;
+  console.log = () => {};
+  console.time = () => {};
+  console.timeEnd = () => {};
+  try {
+    const { categoryGuess, categories } = findMatchingProducts(
+      predictions,
+      catalog
+    );
+    return {
+      categoryGuess,
+      categories: categories.map(({ category }) => category),
+    };
+  } finally {
+    console.log = log;
+    console.time = time;
+    console.timeEnd = timeEnd;
+  }
+}
+
+const checks: Check[] = [
+  {
+    name: "taxonomy maps a breed to its catalog category",
+    run: () => infer(label("golden retriever")).categoryGuess,
+    expected: "pets",
+  },
+  {
+    name: "aliases map an appliance to its catalog category",
+    run: () => infer(label("espresso maker")).categoryGuess,
+    expected: "kitchen",
+  },
+  {
+    name: "aliased category missing from the catalog is never inferred",
+    run: () =>
+      infer(label("golden retriever"), WITHOUT_PETS).categories.includes(
+        "pets"
+      ),
+    expected: false,
+  },
+  {
+    name: "guess comes from the catalog when an alias target is missing",
+    run: () => {
+      const { categoryGuess } = infer(label("golden retriever"), WITHOUT_PETS);
+      return (
+        categoryGuess === null ||
+        WITHOUT_PETS.some((product) => product.category === categoryGuess)
+      );
+    },
+    expected: true,
+  },
+  {
+    name: "no predictions, no categories",
+    run: () => infer([]),
+    expected: { categoryGuess: null, categories: [] },
+  },
+];
+
+if (runChecks("Category inference", checks) > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,230 @@
+/**
+ * Table-driven checks for the JSON API's request validation and match
+ * responses: out-of-range limits and weights, malformed predictions,
+ * unknown fields and query parameters. Exits non-zero when any check fails.
+ *
+ * Usage:
+ *   npm run check:api
+ */
+import { products } from "@/data/products";
+import { Check, runChecks } from "@/evaluation/checks";
+import {
+  DEFAULT_MATCH_LIMIT,
+  DEFAULT_PAGE_SIZE,
+  MatchRequest,
+  MAX_MATCH_LIMIT,
+  MAX_PREDICTIONS,
+  parseMatchRequest,
+  parseProductsQuery,
+  runMatch,
+} from "@/utils/matchApi";
+
+const ESPRESSO = [{ className: "espresso maker", probability: 0.8 }];
+
+// Field names of a rejected request, or "ok"
+function fieldErrors(body: unknown): string[] | "ok" {
+  const result = parseMatchRequest(body);
+  return result.ok ? "ok" : result.errors.map((error) => error.field);
+}
+
+function queryErrors(query: string): string[] | "ok" {
+  const result = parseProductsQuery(new URLSearchParams(query));
+  return result.ok ? "ok" : result.errors.map((error) => error.field);
+}
+
+/**
+ * Run a valid request with the matcher's debug logging silenced
+ */
+function match(body: Record<string, unknown>) {
+  const parsed = parseMatchRequest(body);
+  if (!parsed.ok) {
+    throw new Error(`Invalid request: ${JSON.stringify(parsed.errors)}`);
+  }
+  const request: MatchRequest = parsed.value;
+
+  const { log, time, timeEnd } = console;
+  console.log = () => {};
+  console.time = () => {};
+  console.timeEnd = () => {};
+  try {
+    return runMatch(request, products);
+  } finally {
+    console.log = log;
+    console.time = time;
+    console.timeEnd = timeEnd;
+  }
+}
+
+const checks: Check[] = [
+  {
+    name: "defaults for a predictions-only request",
+    run: () => parseMatchRequest({ predictions: ESPRESSO }),
+    expected: {
+      ok: true,
+      value: {
+        query: "",
+        category: null,
+        limit: DEFAULT_MATCH_LIMIT,
+        preset: "balanced",
+        scoring: {},
+      },
+    },
+  },
+  {
+    name: "query only, category lowercased",
+    run: () => parseMatchRequest({ query: " lamp ", category: "Home" }),
+    expected: { ok: true, value: { query: "lamp", category: "home" } },
+  },
+  {
+    name: "neither predictions nor query",
+    run: () => fieldErrors({}),
+    expected: ["predictions"],
+  },
+  {
+    name: "body that isn't an object",
+    run: () => fieldErrors([ESPRESSO]),
+    expected: [""],
+  },
+  ...[1, MAX_MATCH_LIMIT].map((limit): Check => ({
+    name: `limit ${limit} is accepted`,
+    run: () => fieldErrors({ predictions: ESPRESSO, limit }),
+    expected: "ok",
+  })),
+  ...[0, -1, MAX_MATCH_LIMIT + 1, 2.5, "10", null, Infinity].map(
+    (limit): Check => ({
+      name: `limit ${typeof limit === "string" ? `"${limit}"` : limit} is rejected`,
+      run: () => fieldErrors({ predictions: ESPRESSO, limit }),
+      expected: ["limit"],
+    })
+  ),
+  ...[-0.1, 1.1, "0.5"].map((textWeight): Check => ({
+    name: `textWeight ${JSON.stringify(textWeight)} is rejected`,
+    run: () => fieldErrors({ query: "lamp", textWeight }),
+    expected: ["textWeight"],
+  })),
+  {
+    name: "unknown fields are ignored",
+    run: () =>
+      parseMatchRequest({
+        predictions: ESPRESSO,
+        colour: "red",
+        scoring: { minScore: 1, bogus: 2 },
+      }),
+    expected: {
+      ok: true,
+      value: { scoring: { minScore: 1, bogus: undefined } },
+    },
+  },
+  {
+    name: "unknown preset",
+    run: () => fieldErrors({ predictions: ESPRESSO, preset: "loose" }),
+    expected: ["preset"],
+  },
+  {
+    name: "scoring overrides out of range or not an object",
+    run: () => [
+      fieldErrors({ query: "lamp", scoring: { minProbability: 2 } }),
+      fieldErrors({ query: "lamp", scoring: { idfWeight: -1 } }),
+      fieldErrors({ query: "lamp", scoring: [] }),
+    ],
+    expected: [["scoring.minProbability"], ["scoring.idfWeight"], ["scoring"]],
+  },
+  {
+    name: "every malformed prediction is reported",
+    run: () =>
+      fieldErrors({
+        predictions: [
+          { className: "", probability: 0.5 },
+          { className: "lamp", probability: 1.5 },
+          { className: "lamp" },
+          "lamp",
+        ],
+      }),
+    expected: [
+      "predictions.0.className",
+      "predictions.1.probability",
+      "predictions.2.probability",
+      "predictions.3",
+    ],
+  },
+  {
+    name: "too many predictions",
+    run: () =>
+      fieldErrors({
+        predictions: Array.from({ length: MAX_PREDICTIONS + 1 }, () => ({
+          className: "lamp",
+          probability: 0.1,
+        })),
+      }),
+    expected: ["predictions"],
+  },
+  {
+    name: "wrong types for query and category",
+    run: () => fieldErrors({ predictions: ESPRESSO, query: 1, category: [] }),
+    expected: ["query", "category"],
+  },
+  {
+    name: "limit cuts results but not the total",
+    run: () => {
+      const response = match({ predictions: ESPRESSO, limit: 1 });
+      return {
+        results: response.results.length,
+        moreThanLimit: response.total > 1,
+      };
+    },
+    expected: { results: 1, moreThanLimit: true },
+  },
+  {
+    name: "category narrows results and the total",
+    run: () => {
+      const response = match({ predictions: ESPRESSO, category: "kitchen" });
+      return {
+        allInCategory: response.results.every(
+          (result) => result.product.category === "kitchen"
+        ),
+        totalIsResults: response.total === response.results.length,
+      };
+    },
+    expected: { allInCategory: true, totalIsResults: true },
+  },
+  {
+    name: "matched tags come from the image match",
+    run: () => {
+      const [top] = match({ predictions: ESPRESSO, limit: 1 }).results;
+      return {
+        name: top.product.name,
+        matchedEspresso: top.matchedTags.includes("espresso maker"),
+        noNameMatches: top.matchedTags.every((tag) => !tag.startsWith("name:")),
+      };
+    },
+    expected: {
+      name: "Coffee Maker",
+      matchedEspresso: true,
+      noNameMatches: true,
+    },
+  },
+  {
+    name: "products query defaults",
+    run: () => parseProductsQuery(new URLSearchParams("category=%20Kitchen")),
+    expected: {
+      ok: true,
+      value: { page: 1, pageSize: DEFAULT_PAGE_SIZE, category: "kitchen" },
+    },
+  },
+  ...["page=0", "page=", "page=1.5", "pageSize=101", "pageSize=abc"].map(
+    (query): Check => ({
+      name: `products query ${query} is rejected`,
+      run: () => queryErrors(query),
+      expected: [query.split("=")[0]],
+    })
+  ),
+  {
+    name: "unknown query parameters are ignored",
+    run: () => queryErrors("sort=name&page=2"),
+    expected: "ok",
+  },
+];
+
+if (runChecks("Match API", checks) > 0) {
+  process.exit(1);
+}
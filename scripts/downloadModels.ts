@@ -0,0 +1,86 @@
+/**
+ * Download MobileNet weights from TF Hub into /public/models so the app can
+ * serve them itself instead of fetching them from a CDN at runtime.
+ * Presets already on disk are left alone unless --force is given.
+ *
+ * Usage:
+ *   npm run models:download                      # default classifier
+ *   npm run models:download -- mobilenet-v1-1.0  # specific presets
+ */
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import {
+  CLASSIFIER_PRESETS,
+  DEFAULT_CLASSIFIER,
+  MobileNetClassifierConfig,
+} from "@/config/classifier";
+
+interface ModelJson {
+  weightsManifest: { paths: string[] }[];
+}
+
+const PUBLIC_DIR = path.join(__dirname, "..", "public");
+
+// TF Hub publishes v1 classification models as revision 1 and v2 as revision 2
+function getTfHubUrl(config: MobileNetClassifierConfig): string {
+  return `https://tfhub.dev/google/imagenet/${config.name}/classification/${config.version}`;
+}
+
+async function download(url: string): Promise<Buffer> {
+  const response = await fetch(`${url}?tfjs-format=file`);
+  if (!response.ok) {
+    throw new Error(`GET ${url} failed with ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+async function downloadModel(config: MobileNetClassifierConfig): Promise<void> {
+  const sourceUrl = getTfHubUrl(config);
+  const targetDir = path.join(PUBLIC_DIR, path.dirname(config.modelUrl));
+  mkdirSync(targetDir, { recursive: true });
+
+  console.log(`Downloading ${config.name} from ${sourceUrl}`);
+  const modelJson = await download(`${sourceUrl}/model.json`);
+  writeFileSync(path.join(targetDir, "model.json"), modelJson);
+
+  const { weightsManifest } = JSON.parse(modelJson.toString()) as ModelJson;
+  const shardPaths = weightsManifest.flatMap((group) => group.paths);
+  for (const shardPath of shardPaths) {
+    writeFileSync(
+      path.join(targetDir, shardPath),
+      await download(`${sourceUrl}/${shardPath}`)
+    );
+  }
+
+  console.log(
+    `Saved model.json and ${shardPaths.length} weight shards to ${targetDir}`
+  );
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const force = args.includes("--force");
+  const names = args.filter((arg) => arg !== "--force");
+  const presets = names.length > 0 ? names : [DEFAULT_CLASSIFIER];
+
+  for (const name of presets) {
+    const config = CLASSIFIER_PRESETS[name];
+    if (!config) {
+      throw new Error(`Unknown classifier preset: ${name}`);
+    }
+    if (config.kind !== "mobilenet") {
+      console.log(`Skipping ${name}: custom models must be copied in by hand`);
+      continue;
+    }
+    if (!force && existsSync(path.join(PUBLIC_DIR, config.modelUrl))) {
+      console.log(`Skipping ${name}: already in ${PUBLIC_DIR}`);
+      continue;
+    }
+    await downloadModel(config);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,143 @@
+/**
+ * Offline relevance evaluation for the product matcher.
+ *
+ * Runs every golden query through findMatchingProducts, reports
+ * precision@k, recall@k, MRR and nDCG@k, and exits non-zero when any mean
+ * metric drops below the stored baseline.
+ *
+ * Usage:
+ *   npm run eval:relevance
+ *   npm run eval:relevance -- --preset=strict
+ *   npm run eval:relevance -- --update-baseline
+ */
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { products } from "@/data/products";
+import { Prediction } from "@/utils/imageClassifier";
+import { findMatchingProducts } from "@/utils/productMatcher";
+import { getScoringConfig, ScoringPreset } from "@/utils/scoringConfig";
+import {
+  evaluateRanking,
+  meanMetrics,
+  RankingMetrics,
+} from "@/evaluation/metrics";
+
+interface GoldenQuery {
+  id: string;
+  description: string;
+  predictions: Prediction[];
+  expectedProductIds: number[];
+}
+
+interface Baseline {
+  k: number;
+  preset: ScoringPreset;
+  metrics: RankingMetrics;
+}
+
+const EVALUATION_DIR = path.join(__dirname, "..", "src", "evaluation");
+const QUERIES_PATH = path.join(EVALUATION_DIR, "goldenQueries.json");
+const BASELINE_PATH = path.join(EVALUATION_DIR, "baseline.json");
+
+// Allow for floating point noise when comparing against the baseline
+const TOLERANCE = 1e-6;
+
+function getArg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv
+    .find((arg) => arg.startsWith(prefix))
+    ?.slice(prefix.length);
+}
+
+function readJson<T>(filePath: string): T {
+  return JSON.parse(readFileSync(filePath, "utf8")) as T;
+}
+
+/**
+ * Run the matcher with its debug logging silenced
+ */
+function rankProducts(
+  predictions: Prediction[],
+  preset: ScoringPreset
+): number[] {
+  const { log, time, timeEnd } = console;
+  console.log = () => {};
+  console.time = () => {};
+  console.timeEnd = () => {};
+  try {
+    return findMatchingProducts(
+      predictions,
+      products,
+      50,
+      getScoringConfig(preset)
+    ).products.map((product) => product.id);
+  } finally {
+    console.log = log;
+    console.time = time;
+    console.timeEnd = timeEnd;
+  }
+}
+
+function formatMetrics(metrics: RankingMetrics): string {
+  return [
+    `P@k ${metrics.precisionAtK.toFixed(3)}`,
+    `R@k ${metrics.recallAtK.toFixed(3)}`,
+    `MRR ${metrics.mrr.toFixed(3)}`,
+    `nDCG@k ${metrics.ndcgAtK.toFixed(3)}`,
+  ].join("  ");
+}
+
+function main(): void {
+  const baseline = readJson<Baseline>(BASELINE_PATH);
+  const updateBaseline = process.argv.includes("--update-baseline");
+  const k = Number(getArg("k") ?? baseline.k);
+  const preset = (getArg("preset") ?? baseline.preset) as ScoringPreset;
+  const queries = readJson<GoldenQuery[]>(QUERIES_PATH);
+
+  console.log(
+    `Evaluating ${queries.length} golden queries (k=${k}, preset=${preset})\n`
+  );
+
+  const results = queries.map((query) => {
+    const ranked = rankProducts(query.predictions, preset);
+    const metrics = evaluateRanking(ranked, query.expectedProductIds, k);
+    console.log(`${query.id.padEnd(16)} ${formatMetrics(metrics)}`);
+    return metrics;
+  });
+
+  const mean = meanMetrics(results);
+  console.log(`\n${"mean".padEnd(16)} ${formatMetrics(mean)}`);
+
+  if (updateBaseline) {
+    const next: Baseline = { k, preset, metrics: mean };
+    writeFileSync(BASELINE_PATH, `${JSON.stringify(next, null, 2)}\n`);
+    console.log(`\nBaseline written to ${BASELINE_PATH}`);
+    return;
+  }
+
+  if (k !== baseline.k || preset !== baseline.preset) {
+    console.log(
+      `\nBaseline was recorded with k=${baseline.k}, preset=${baseline.preset}; skipping comparison`
+    );
+    return;
+  }
+
+  const regressions = (Object.keys(mean) as (keyof RankingMetrics)[]).filter(
+    (metric) => mean[metric] < baseline.metrics[metric] - TOLERANCE
+  );
+
+  if (regressions.length > 0) {
+    regressions.forEach((metric) => {
+      console.error(
+        `Regression: ${metric} ${mean[metric].toFixed(3)} < baseline ${baseline.metrics[metric].toFixed(3)}`
+      );
+    });
+    process.exit(1);
+  }
+
+  console.log(
+    `\nNo regressions against baseline (${formatMetrics(baseline.metrics)})`
+  );
+}
+
+main();
@@ -0,0 +1,75 @@
+/**
+ * Import a CSV or JSON product feed into the catalog the app and matcher use.
+ *
+ * Rows are validated (required fields, numeric price, http(s) image URL,
+ * unique ids) and tags are normalized and de-duplicated. The catalog is only
+ * written when every row is valid, unless --allow-errors is passed, in which
+ * case invalid rows are skipped.
+ *
+ * Usage:
+ *   npm run catalog:import -- feeds/products.csv
+ *   npm run catalog:import -- feeds/products.json --allow-errors
+ *   npm run catalog:import -- feeds/products.csv --dry-run
+ *
+ * CSV feeds need a header row with id,name,category,tags,image,price,description;
+ * separate tags inside the cell with | or ;.
+ */
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { detectCatalogFormat, importCatalog } from "@/utils/catalogImporter";
+
+const CATALOG_PATH = path.join(__dirname, "..", "src", "data", "catalog.json");
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const feedPath = args.find((arg) => !arg.startsWith("--"));
+  const allowErrors = args.includes("--allow-errors");
+  const dryRun = args.includes("--dry-run");
+
+  if (!feedPath) {
+    console.error("Usage: npm run catalog:import -- <feed.csv|feed.json>");
+    process.exit(1);
+  }
+
+  const format = detectCatalogFormat(feedPath);
+  if (!format) {
+    console.error(
+      `Unsupported feed type: ${feedPath} (expected .csv or .json)`
+    );
+    process.exit(1);
+  }
+
+  const result = importCatalog(readFileSync(feedPath, "utf8"), format);
+
+  result.errors.forEach((error) => {
+    const field = error.field ? ` [${error.field}]` : "";
+    console.error(`Row ${error.row}${field}: ${error.message}`);
+  });
+
+  console.log(
+    `${result.products.length} valid products, ${result.errors.length} errors, ` +
+      `${result.duplicateTagsRemoved} duplicate tags removed`
+  );
+
+  if (result.unknownAliasCategories.length > 0) {
+    console.warn(
+      `Label taxonomy aliases point at categories this catalog lacks (ignored ` +
+        `until products use them): ${result.unknownAliasCategories.join(", ")}`
+    );
+  }
+
+  if (result.errors.length > 0 && !allowErrors) {
+    console.error("Catalog not written; fix the feed or pass --allow-errors");
+    process.exit(1);
+  }
+
+  if (dryRun) {
+    console.log("Dry run: catalog not written");
+    return;
+  }
+
+  writeFileSync(CATALOG_PATH, `${JSON.stringify(result.products, null, 2)}\n`);
+  console.log(`Catalog written to ${CATALOG_PATH}`);
+}
+
+main();
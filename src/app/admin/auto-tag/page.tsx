@@ -0,0 +1,209 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { products } from '@/data/products';
+import { classifyInWorker, loadImageBitmap } from '@/utils/classifierClient';
+import {
+  applyAcceptedTags,
+  AutoTagResult,
+  DEFAULT_MIN_TAG_CONFIDENCE,
+  runAutoTagging,
+} from '@/utils/autoTagger';
+
+// New proposals at or above this confidence start out accepted
+const PRESELECT_CONFIDENCE = 0.2;
+
+export default function AutoTagPage() {
+  const [results, setResults] = useState<AutoTagResult[]>([]);
+  const [accepted, setAccepted] = useState<Record<number, string[]>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [minConfidence, setMinConfidence] = useState(DEFAULT_MIN_TAG_CONFIDENCE);
+
+  const handleRun = async () => {
+    console.log('=== AUTO-TAGGING STARTED ===');
+    setIsRunning(true);
+    setResults([]);
+    setAccepted({});
+
+    await runAutoTagging(
+      products,
+      async (product) => classifyInWorker(await loadImageBitmap(product.image)),
+      (result, done, total) => {
+        setProgress(`Classified ${done}/${total} products`);
+        setResults((previous) => [...previous, result]);
+        setAccepted((previous) => ({
+          ...previous,
+          [result.product.id]: result.proposals
+            .filter((proposal) => proposal.isNew && proposal.confidence >= PRESELECT_CONFIDENCE)
+            .map((proposal) => proposal.tag),
+        }));
+      },
+      minConfidence
+    );
+
+    console.log('=== AUTO-TAGGING COMPLETE ===');
+    setIsRunning(false);
+  };
+
+  const toggleTag = (productId: number, tag: string) => {
+    setAccepted((previous) => {
+      const current = previous[productId] ?? [];
+      return {
+        ...previous,
+        [productId]: current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag],
+      };
+    });
+  };
+
+  const setAllForProduct = (result: AutoTagResult, accept: boolean) => {
+    setAccepted((previous) => ({
+      ...previous,
+      [result.product.id]: accept ? result.proposals.filter((p) => p.isNew).map((p) => p.tag) : [],
+    }));
+  };
+
+  // Export the catalog with accepted tags; re-import it to validate and write it back
+  const handleDownload = () => {
+    const updated = applyAcceptedTags(products, accepted);
+    const blob = new Blob([`${JSON.stringify(updated, null, 2)}\n`], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'catalog.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const acceptedCount = Object.values(accepted).reduce((sum, tags) => sum + tags.length, 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">
+            Auto-tag Catalog
+          </h1>
+          <p className="text-gray-600 dark:text-gray-300">
+            Classify every product image and review the suggested tags before they reach the catalog
+          </p>
+        </div>
+
+        <div className="max-w-5xl mx-auto mb-8 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Minimum confidence: {(minConfidence * 100).toFixed(0)}%
+              </label>
+              <input
+                type="range"
+                min={0.01}
+                max={0.5}
+                step={0.01}
+                value={minConfidence}
+                onChange={(e) => setMinConfidence(Number(e.target.value))}
+                disabled={isRunning}
+                className="w-full"
+              />
+            </div>
+            <button
+              onClick={handleRun}
+              disabled={isRunning}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isRunning ? 'Running...' : 'Run auto-tagging'}
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={isRunning || acceptedCount === 0}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              Download catalog ({acceptedCount} new tags)
+            </button>
+          </div>
+          {progress && <p className="mt-4 text-sm text-gray-600 dark:text-gray-300">{progress}</p>}
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Write the downloaded file back with <code>npm run catalog:import -- catalog.json</code>.
+          </p>
+        </div>
+
+        <div className="max-w-5xl mx-auto space-y-4">
+          {results.map((result) => {
+            const newProposals = result.proposals.filter((p) => p.isNew);
+            const knownProposals = result.proposals.filter((p) => !p.isNew);
+            const productAccepted = accepted[result.product.id] ?? [];
+
+            return (
+              <div key={result.product.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 flex gap-4">
+                <div className="relative w-24 h-24 shrink-0 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+                  <Image src={result.product.image} alt={result.product.name} fill className="object-cover" unoptimized />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex justify-between items-start gap-2">
+                    <div>
+                      <h3 className="font-semibold text-gray-900 dark:text-white">{result.product.name}</h3>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {result.product.tags.length} existing tags
+                      </p>
+                    </div>
+                    {newProposals.length > 0 && (
+                      <div className="flex gap-2 text-xs">
+                        <button onClick={() => setAllForProduct(result, true)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                          Accept all
+                        </button>
+                        <button onClick={() => setAllForProduct(result, false)} className="text-gray-500 hover:underline">
+                          Reject all
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {result.error && (
+                    <p className="mt-2 text-sm text-red-600 dark:text-red-400">Failed: {result.error}</p>
+                  )}
+
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {newProposals.map((proposal) => {
+                      const isAccepted = productAccepted.includes(proposal.tag);
+                      return (
+                        <label
+                          key={proposal.tag}
+                          title={`From "${proposal.sourceLabel}"`}
+                          className={`text-xs px-2 py-1 rounded cursor-pointer border ${
+                            isAccepted
+                              ? 'bg-green-100 border-green-300 text-green-800 dark:bg-green-900 dark:border-green-700 dark:text-green-200'
+                              : 'bg-gray-50 border-gray-200 text-gray-500 line-through dark:bg-gray-700 dark:border-gray-600'
+                          }`}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={isAccepted}
+                            onChange={() => toggleTag(result.product.id, proposal.tag)}
+                            className="mr-1 align-middle"
+                          />
+                          + {proposal.tag} <span className="opacity-70">{(proposal.confidence * 100).toFixed(0)}%</span>
+                        </label>
+                      );
+                    })}
+                    {knownProposals.map((proposal) => (
+                      <span
+                        key={proposal.tag}
+                        className="text-xs px-2 py-1 rounded bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300"
+                      >
+                        = {proposal.tag} <span className="opacity-70">{(proposal.confidence * 100).toFixed(0)}%</span>
+                      </span>
+                    ))}
+                    {!result.error && result.proposals.length === 0 && (
+                      <span className="text-xs text-gray-500">No predictions above the confidence threshold</span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
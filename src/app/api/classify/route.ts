@@ -0,0 +1,49 @@
+import { apiError, withApiErrors } from '@/utils/apiErrors';
+import { classifyImageOnServer, ImageDecodeError, ModelUnavailableError } from '@/utils/serverClassifier';
+
+// Decoding and TensorFlow.js need Node APIs
+export const runtime = 'nodejs';
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Classifies an uploaded image (multipart field "image") with the bundled model,
+// for browsers that can't load it or run it fast enough. Returns { predictions }.
+export async function POST(request: Request) {
+  return withApiErrors('POST /api/classify', async () => {
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      return apiError('validation_failed', 'Request body must be multipart/form-data', [
+        { field: 'image', message: 'Upload the image as a multipart "image" field' },
+      ]);
+    }
+
+    const image = form.get('image');
+    if (!(image instanceof Blob)) {
+      return apiError('validation_failed', 'Missing image', [{ field: 'image', message: 'image file is required' }]);
+    }
+    if (image.type && !image.type.startsWith('image/')) {
+      return apiError('validation_failed', 'Unsupported file type', [
+        { field: 'image', message: `Expected an image, got ${image.type}` },
+      ]);
+    }
+    if (image.size > MAX_UPLOAD_BYTES) {
+      return apiError('payload_too_large', `Images can be at most ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+    }
+
+    try {
+      const predictions = await classifyImageOnServer(new Uint8Array(await image.arrayBuffer()));
+      return Response.json({ predictions });
+    } catch (error) {
+      if (error instanceof ImageDecodeError) {
+        return apiError('validation_failed', 'Could not read the image', [{ field: 'image', message: error.message }]);
+      }
+      if (error instanceof ModelUnavailableError) {
+        console.error('[API] POST /api/classify:', error.message);
+        return apiError('model_unavailable', 'Image classification is not available right now');
+      }
+      throw error;
+    }
+  });
+}
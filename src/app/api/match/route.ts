@@ -0,0 +1,23 @@
+import { products } from '@/data/products';
+import { apiError, withApiErrors } from '@/utils/apiErrors';
+import { parseMatchRequest, runMatch } from '@/utils/matchApi';
+
+// Ranks catalog products for image predictions and/or a text query, for clients
+// that classify images themselves (mobile app, partner integrations)
+export async function POST(request: Request) {
+  return withApiErrors('POST /api/match', async () => {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return apiError('invalid_json', 'Request body must be valid JSON');
+    }
+
+    const parsed = parseMatchRequest(body);
+    if (!parsed.ok) {
+      return apiError('validation_failed', 'Invalid match request', parsed.errors);
+    }
+
+    return Response.json(runMatch(parsed.value, products));
+  });
+}
@@ -0,0 +1,15 @@
+import { products } from '@/data/products';
+import { apiError, withApiErrors } from '@/utils/apiErrors';
+import { pageProducts, parseProductsQuery } from '@/utils/matchApi';
+
+// Pages through the catalog, optionally within one category
+export async function GET(request: Request) {
+  return withApiErrors('GET /api/products', () => {
+    const parsed = parseProductsQuery(new URL(request.url).searchParams);
+    if (!parsed.ok) {
+      return apiError('validation_failed', 'Invalid products query', parsed.errors);
+    }
+
+    return Response.json(pageProducts(products, parsed.value));
+  });
+}
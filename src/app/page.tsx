@@ -1,165 +1,693 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { Suspense, useState, useEffect, useEffectEvent, useMemo, useRef } from 'react';
 import Image from 'next/image';
-import { products, Product } from '@/data/products';
-import { classifyImage, loadModel, Prediction } from '@/utils/imageClassifier';
-import { findMatchingProducts, filterProducts, filterByCategory, getCategories } from '@/utils/productMatcher';
+import { useSearchParams } from 'next/navigation';
+import { products } from '@/data/products';
+import { Prediction } from '@/utils/imageClassifier';
+import {
+  classifyInWorkerWithFallback,
+  classifyLatestWithFallback,
+  ClassificationStage,
+  loadImageBitmap,
+  loadModelInWorker,
+  ModelLoadState,
+} from '@/utils/classifierClient';
+import { averageEmbeddings, buildProductEmbeddings, ProductEmbeddings } from '@/utils/embeddingIndex';
+import { mergePredictions } from '@/utils/predictionSmoothing';
+import { decodeImageBlob, validateImageFile } from '@/utils/imagePreprocessing';
+import { DetectedColor, extractDominantColors, getNamedColor } from '@/utils/colorExtraction';
+import { getConfidentCategory } from '@/utils/categoryInference';
+import {
+  findMatchingProducts,
+  rankMatchingProducts,
+  scoreVisualSimilarity,
+  scoreBlendedMatches,
+  MatchMode,
+  MatchResult,
+  MatchScore,
+} from '@/utils/productMatcher';
+import { DEFAULT_SCORING_CONFIG } from '@/utils/scoringConfig';
+import { DEFAULT_TEXT_WEIGHT, rankHybridMatches } from '@/utils/hybridRanker';
+import {
+  applyFacetFilters,
+  computeFacets,
+  EMPTY_FACET_FILTERS,
+  FacetFilters,
+  hasActiveFilters,
+  SortOption,
+  sortProducts,
+} from '@/utils/facets';
+import { getImageMatches } from '@/utils/catalogSearch';
+import { getSearchUrl, IMAGE_PRODUCT_PARAM, parseSearchState, serializeSearchState } from '@/utils/searchState';
+import { cropBitmap, DetectedObject, getTileRegions, groupTilePredictions, Region, TilePredictions } from '@/utils/regionSearch';
+import ProductCard from '@/components/ProductCard';
+import FacetPanel from '@/components/FacetPanel';
+import CropOverlay from '@/components/CropOverlay';
+import LiveCamera from '@/components/LiveCamera';
+import NoMatchState from '@/components/NoMatchState';
 
+const SORT_LABELS: Record<SortOption, string> = {
+  relevance: 'Relevance',
+  'price-asc': 'Price: low to high',
+  'price-desc': 'Price: high to low',
+  name: 'Name',
+};
+
+const STAGE_MESSAGES: Record<ClassificationStage, string> = {
+  queued: 'Waiting for the model...',
+  'loading-model': 'Loading AI model...',
+  classifying: 'Analyzing image...',
+  embedding: 'Extracting visual features...',
+};
+
+// An image to search with, and how to read its pixels
+interface QueryImage {
+  src: string;
+  /** Created with URL.createObjectURL, so it must be revoked when replaced */
+  isObjectUrl: boolean;
+  load: () => Promise<ImageBitmap>;
+}
+
+// Serialized labels, for telling whether two predictions lists describe the same image
+function getLabelsKey(labels: Prediction[]): string {
+  return serializeSearchState({ query: '', filters: EMPTY_FACET_FILTERS, sort: 'relevance', labels }).toString();
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
 export default function Home() {
+  return (
+    <Suspense>
+      <ImageSearch />
+    </Suspense>
+  );
+}
+
+function ImageSearch() {
+  const searchParams = useSearchParams();
+  // Query, facets, sort and detected labels start from the URL so links reopen the same results
+  const [initialState] = useState(() => parseSearchState(new URLSearchParams(searchParams.toString())));
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [predictions, setPredictions] = useState<Prediction[]>([]);
-  const [displayedProducts, setDisplayedProducts] = useState<Product[]>(products.slice(0, 50));
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('all');
-  const [modelLoaded, setModelLoaded] = useState(false);
-  const imageRef = useRef<HTMLImageElement>(null);
+  const [predictions, setPredictions] = useState<Prediction[]>(initialState.labels);
+  const [searchQuery, setSearchQuery] = useState(initialState.query);
+  const [filters, setFilters] = useState<FacetFilters>(initialState.filters);
+  // Category picked from the last image search, applied only while the user hasn't
+  // chosen categories themselves. Kept out of `filters` so the next image replaces it.
+  const [autoCategory, setAutoCategory] = useState<string | null>(null);
+  const [sortOption, setSortOption] = useState<SortOption>(initialState.sort);
+  const [modelState, setModelState] = useState<ModelLoadState>('idle');
+  // Without the in-browser model, images are classified on the server instead
+  const canSearchImages = modelState === 'ready' || modelState === 'error';
+  const [matchMode, setMatchMode] = useState<MatchMode>('tags');
+  const [queryEmbedding, setQueryEmbedding] = useState<number[] | null>(null);
+  // Dominant colors of the first image; products tagged with them rank higher
+  const [detectedColors, setDetectedColors] = useState<DetectedColor[]>([]);
+  const [productEmbeddings, setProductEmbeddings] = useState<ProductEmbeddings | null>(null);
+  const [progressMessage, setProgressMessage] = useState<string | null>(null);
+  const [matchResult, setMatchResult] = useState<MatchResult | null>(() =>
+    initialState.labels.length > 0 ? findMatchingProducts(initialState.labels, products, 50) : null
+  );
+  const [textWeight, setTextWeight] = useState(DEFAULT_TEXT_WEIGHT);
+  const [cropRegion, setCropRegion] = useState<Region | null>(null);
+  const [detectedObjects, setDetectedObjects] = useState<DetectedObject[]>([]);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [extraImages, setExtraImages] = useState<string[]>([]);
+  const [imageUrl, setImageUrl] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const [inputError, setInputError] = useState<string | null>(null);
+  // Average predictions over flipped and cropped views of each photo
+  const [augmentImages, setAugmentImages] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewUrlsRef = useRef<string[]>([]);
+  // Reloads the full current image, for cropping and scene scans
+  const imageLoaderRef = useRef<(() => Promise<ImageBitmap>) | null>(null);
+  const scanIdRef = useRef(0);
+  // Bumped by every new image search; older searches must not touch the results
+  const searchIdRef = useRef(0);
+
+  // Score breakdown per product id, used to explain each card
+  const matchScores = useMemo(() => {
+    if (predictions.length === 0) {
+      return new Map<number, MatchScore>();
+    }
+    return new Map(
+      rankMatchingProducts(predictions, products, products.length, DEFAULT_SCORING_CONFIG, detectedColors).map((match) => [
+        match.product.id,
+        match,
+      ])
+    );
+  }, [predictions, detectedColors]);
+
+  // Fuse the image ranking with the search text; facets and sorting apply on top
+  const rankedMatches = useMemo(
+    () => rankHybridMatches(getImageMatches(matchResult), searchQuery, products, textWeight),
+    [matchResult, searchQuery, textWeight]
+  );
+  const rankedProducts = useMemo(() => rankedMatches.map((match) => match.product), [rankedMatches]);
+  const hybridMatches = useMemo(
+    () => new Map(rankedMatches.map((match) => [match.product.id, match])),
+    [rankedMatches]
+  );
+
+  // One product row per object found by a scene scan
+  const objectMatches = useMemo(
+    () => detectedObjects.map((object) => ({ object, matches: rankMatchingProducts(object.predictions, products, 8) })),
+    [detectedObjects]
+  );
 
-  // Load TensorFlow model on component mount
+  const activeFilters = useMemo(
+    () => (autoCategory && filters.categories.length === 0 ? { ...filters, categories: [autoCategory] } : filters),
+    [filters, autoCategory]
+  );
+
+  // Facet counts cover the current image/text results, not the whole catalog
+  const facets = useMemo(() => computeFacets(rankedProducts, activeFilters), [rankedProducts, activeFilters]);
+  const displayedProducts = useMemo(
+    () => sortProducts(applyFacetFilters(rankedProducts, activeFilters), sortOption),
+    [rankedProducts, activeFilters, sortOption]
+  );
+
+  // Load the model in the classifier worker on component mount
   useEffect(() => {
-    const loadTFModel = async () => {
-      try {
-        console.log('=== STARTING MODEL LOAD ===');
-        console.log('TensorFlow available:', typeof window !== 'undefined' && window.tf);
-        console.log('MobileNet available:', typeof window !== 'undefined' && window.mobilenet);
+    console.log('=== STARTING MODEL LOAD (WORKER) ===');
+    return loadModelInWorker((state) => {
+      console.log('Model load state:', state);
+      setModelState(state);
+      // The server fallback only classifies, so visual modes have no query embedding
+      if (state === 'error') {
+        setMatchMode('tags');
+      }
+    });
+  }, []);
+
+  // Mirror the search state into the URL. Typing replaces the current history
+  // entry; other changes push a new one so the back button undoes them.
+  useEffect(() => {
+    const state = { query: searchQuery, filters, sort: sortOption, labels: predictions };
+    const url = getSearchUrl(window.location.pathname, state);
+    if (url === window.location.pathname + window.location.search) {
+      return;
+    }
+
+    const previous = parseSearchState(new URLSearchParams(window.location.search));
+    const onlyQueryChanged = getSearchUrl(window.location.pathname, { ...previous, query: searchQuery }) === url;
+    if (onlyQueryChanged) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+  }, [searchQuery, filters, sortOption, predictions]);
 
-        await loadModel();
+  // Restore the search state on back/forward. The uploaded image can't be restored,
+  // so labels from another entry are matched by tags alone.
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = parseSearchState(new URLSearchParams(window.location.search));
+      console.log('=== HISTORY NAVIGATION ===', state);
 
-        console.log('=== MODEL LOADED SUCCESSFULLY ===');
-        setModelLoaded(true);
-      } catch (error) {
-        console.error('=== ERROR LOADING MODEL ===');
-        console.error('Error details:', error);
+      setSearchQuery(state.query);
+      setFilters(state.filters);
+      setAutoCategory(null);
+      setSortOption(state.sort);
+      if (getLabelsKey(state.labels) !== getLabelsKey(predictions)) {
+        setPredictions(state.labels);
+        setQueryEmbedding(null);
+        setDetectedColors([]);
+        setSelectedImage(null);
+        setExtraImages([]);
+        setMatchResult(state.labels.length > 0 ? findMatchingProducts(state.labels, products, 50) : null);
       }
     };
-    loadTFModel();
-  }, []);
 
-  // Handle image upload
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) {
-      console.log('No file selected');
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [predictions]);
+
+  // Precompute catalog feature vectors the first time a visual mode is needed
+  const ensureProductEmbeddings = async (): Promise<ProductEmbeddings> => {
+    if (productEmbeddings) {
+      return productEmbeddings;
+    }
+
+    const embeddings = await buildProductEmbeddings(products, (done, total) => {
+      setProgressMessage(`Indexing catalog images ${done}/${total}...`);
+    });
+    setProgressMessage(null);
+    // Images that failed to index are retried on the next visual search
+    if (embeddings.size === products.length) {
+      setProductEmbeddings(embeddings);
+    }
+    return embeddings;
+  };
+
+  // Rank products for the current image using the selected match mode.
+  // The status always comes from tag matching; visual modes always have results,
+  // so a "none" tag match is downgraded to "weak" there.
+  const matchProducts = (
+    preds: Prediction[],
+    mode: MatchMode,
+    embedding: number[] | null,
+    embeddings: ProductEmbeddings | null,
+    colors: DetectedColor[]
+  ): MatchResult => {
+    const result = findMatchingProducts(preds, products, 50, DEFAULT_SCORING_CONFIG, colors);
+    const visualStatus = result.status === 'none' ? 'weak' : result.status;
+
+    let scored = null;
+    if (mode === 'visual' && embedding && embeddings) {
+      scored = scoreVisualSimilarity(embedding, embeddings, products).slice(0, 50);
+    } else if (mode === 'blended' && embedding && embeddings) {
+      scored = scoreBlendedMatches(preds, embedding, embeddings, products, undefined, DEFAULT_SCORING_CONFIG, colors).slice(0, 50);
+    }
+
+    if (scored) {
+      return {
+        ...result,
+        status: visualStatus,
+        products: scored.map((item) => item.product),
+        scores: scored.map((item) => item.score),
+      };
+    }
+
+    return result;
+  };
+
+  // Show new query images, replacing the previous uploads' object URLs and dropping
+  // the crop and scene scan. Previews are set synchronously, so a later image always wins.
+  // Cropping and scene scans work on the first image.
+  const showPreview = (images: QueryImage[]) => {
+    previewUrlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+    previewUrlsRef.current = images.filter((image) => image.isObjectUrl).map((image) => image.src);
+    imageLoaderRef.current = images[0]?.load ?? null;
+    scanIdRef.current++;
+    setSelectedImage(images[0]?.src ?? null);
+    setExtraImages(images.slice(1).map((image) => image.src));
+    setCropRegion(null);
+    setDetectedObjects([]);
+    setInputError(null);
+    setAutoCategory(null);
+    searchIdRef.current++;
+  };
+
+  // Narrow to the inferred category when the predictions clearly point at one,
+  // replacing whatever the previous image picked
+  const selectLikelyCategory = (result: MatchResult) => {
+    const confidentCategory = getConfidentCategory(result.categories, DEFAULT_SCORING_CONFIG);
+    console.log('Pre-selecting category:', confidentCategory);
+    setAutoCategory(confidentCategory);
+  };
+
+  // Classify one or more photos of the same item and match them against the catalog.
+  // Several photos are merged into one query: predictions by probability-weighted
+  // average, feature vectors by mean.
+  const searchByImages = async (loadBitmaps: (() => Promise<ImageBitmap>)[]) => {
+    const searchId = ++searchIdRef.current;
+    const isSuperseded = () => searchId !== searchIdRef.current;
+    setIsProcessing(true);
+    setProgressMessage(STAGE_MESSAGES.queued);
+
+    try {
+      console.log('=== STARTING IMAGE CLASSIFICATION ===');
+      console.log('Images:', loadBitmaps.length);
+      const classifications = [];
+      let colors: DetectedColor[] = [];
+      for (const [index, loadBitmap] of loadBitmaps.entries()) {
+        const bitmap = await loadBitmap();
+        console.log('Image bitmap dimensions:', bitmap.width, 'x', bitmap.height);
+        // Read colors before the bitmap is handed to the classifier
+        if (index === 0) {
+          colors = extractDominantColors(bitmap);
+          console.log('Dominant colors:', colors);
+        }
+        const imageLabel = loadBitmaps.length > 1 ? `Image ${index + 1}/${loadBitmaps.length}: ` : '';
+
+        // Any classification still running for an earlier upload is cancelled
+        const classification = await classifyLatestWithFallback(
+          bitmap,
+          (stage, progress) => {
+            setProgressMessage(`${imageLabel}${STAGE_MESSAGES[stage]} ${Math.round(progress * 100)}%`);
+          },
+          augmentImages
+        );
+
+        if (!classification || isSuperseded()) {
+          console.log('=== CLASSIFICATION SUPERSEDED BY A NEWER UPLOAD ===');
+          return;
+        }
+        classifications.push(classification);
+      }
+
+      const preds = mergePredictions(classifications.map((classification) => classification.predictions));
+      const embedding = averageEmbeddings(
+        classifications.flatMap((classification) => (classification.embedding ? [classification.embedding] : []))
+      );
+
+      console.log('=== CLASSIFICATION COMPLETE ===');
+      console.log('Number of predictions:', preds.length);
+      console.log('Predictions:', JSON.stringify(preds, null, 2));
+
+      setPredictions(preds);
+      setQueryEmbedding(embedding);
+      setDetectedColors(colors);
+      const embeddings = matchMode === 'tags' ? productEmbeddings : await ensureProductEmbeddings();
+      if (isSuperseded()) {
+        console.log('=== MATCHING SUPERSEDED BY A NEWER SEARCH ===');
+        return;
+      }
+
+      // Find matching products
+      console.log('=== FINDING MATCHING PRODUCTS ===');
+      console.log('Match mode:', matchMode);
+      const result = matchProducts(preds, matchMode, embedding, embeddings, colors);
+      const matchedProducts = result.products;
+
+      console.log('=== MATCHING COMPLETE ===');
+      console.log('Match status:', result.status);
+      console.log('Number of matched products:', matchedProducts.length);
+      console.log('Top 5 matched products:', matchedProducts.slice(0, 5).map(p => ({
+        id: p.id,
+        name: p.name,
+        category: p.category,
+        tags: p.tags
+      })));
+
+      setMatchResult(result);
+      selectLikelyCategory(result);
+    } catch (error) {
+      console.error('=== ERROR DURING CLASSIFICATION ===');
+      console.error('Error:', error);
+      console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+      setInputError(`Couldn't analyze the image: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    setIsProcessing(false);
+    setProgressMessage(null);
+    console.log('=== PROCESSING COMPLETE ===');
+  };
+
+  // Search with image files from the file picker, drag-and-drop or the clipboard.
+  // Files that aren't images or are too large are skipped with an error.
+  const handleImageFiles = (files: File[]) => {
+    const checked = files.map((file) => ({ file, error: validateImageFile(file) }));
+    const images = checked.filter(({ error }) => error === null).map(({ file }) => file);
+    const errors = checked.flatMap(({ error }) => (error ? [error] : []));
+    if (images.length === 0) {
+      console.log('No usable image files:', errors);
+      setInputError(errors.join('. ') || null);
       return;
     }
 
     console.log('=== IMAGE UPLOAD STARTED ===');
-    console.log('File name:', file.name);
-    console.log('File type:', file.type);
-    console.log('File size:', (file.size / 1024).toFixed(2), 'KB');
-
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      const imageUrl = event.target?.result as string;
-      console.log('Image loaded as data URL, length:', imageUrl.length);
-
-      setSelectedImage(imageUrl);
-      setIsProcessing(true);
-
-      // Wait for image to load before classifying
-      setTimeout(async () => {
-        if (imageRef.current) {
-          try {
-            console.log('=== STARTING IMAGE CLASSIFICATION ===');
-            console.log('Image element dimensions:', imageRef.current.width, 'x', imageRef.current.height);
-
-            const preds = await classifyImage(imageRef.current);
-
-            console.log('=== CLASSIFICATION COMPLETE ===');
-            console.log('Number of predictions:', preds.length);
-            console.log('Predictions:', JSON.stringify(preds, null, 2));
-
-            setPredictions(preds);
-
-            // Find matching products
-            console.log('=== FINDING MATCHING PRODUCTS ===');
-            const matchedProducts = findMatchingProducts(preds, products, 50);
-
-            console.log('=== MATCHING COMPLETE ===');
-            console.log('Number of matched products:', matchedProducts.length);
-            console.log('Top 5 matched products:', matchedProducts.slice(0, 5).map(p => ({
-              id: p.id,
-              name: p.name,
-              category: p.category,
-              tags: p.tags
-            })));
-
-            setDisplayedProducts(matchedProducts);
-          } catch (error) {
-            console.error('=== ERROR DURING CLASSIFICATION ===');
-            console.error('Error:', error);
-            console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+    images.forEach((file) => {
+      console.log('File name:', file.name);
+      console.log('File type:', file.type);
+      console.log('File size:', (file.size / 1024).toFixed(2), 'KB');
+    });
+
+    const queryImages = images.map((file) => ({
+      src: URL.createObjectURL(file),
+      isObjectUrl: true,
+      load: () => decodeImageBlob(file),
+    }));
+    showPreview(queryImages);
+    if (errors.length > 0) {
+      setInputError(`Skipped: ${errors.join('. ')}`);
+    }
+    searchByImages(queryImages.map((image) => image.load));
+  };
+
+  // Handle image upload
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleImageFiles([...(e.target.files ?? [])]);
+  };
+
+  // Search with an image on another site; it must allow cross-origin reads
+  const handleImageUrl = (url: string) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      setInputError('Enter a full image URL, starting with https://');
+      return;
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      setInputError('Only http and https image URLs are supported');
+      return;
+    }
+
+    console.log('=== IMAGE URL SEARCH ===');
+    console.log('URL:', parsed.href);
+
+    const load = () => loadImageBitmap(parsed.href);
+    showPreview([{ src: parsed.href, isObjectUrl: false, load }]);
+    searchByImages([load]);
+  };
+
+  const handleImageUrlSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    handleImageUrl(imageUrl);
+  };
+
+  // Accept image files, or an image dragged in from another page
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!canSearchImages || cameraOpen) {
+      return;
+    }
+
+    const files = [...e.dataTransfer.files];
+    if (files.length > 0) {
+      handleImageFiles(files);
+      return;
+    }
+    const url = e.dataTransfer.getData('text/uri-list').split('\n').find((line) => line && !line.startsWith('#'));
+    if (url) {
+      handleImageUrl(url);
+    }
+  };
+
+  // Pasting an image anywhere on the page searches with it; text pastes are left alone
+  const handlePaste = useEffectEvent((e: ClipboardEvent) => {
+    const files = [...(e.clipboardData?.files ?? [])].filter((file) => file.type.startsWith('image/'));
+    if (files.length === 0 || !canSearchImages || cameraOpen) {
+      return;
+    }
+    e.preventDefault();
+    console.log('=== IMAGE PASTED ===');
+    handleImageFiles(files);
+  });
+
+  useEffect(() => {
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  // Search only the part of the image inside the crop box
+  const handleRegionSelect = (region: Region) => {
+    const loadBitmap = imageLoaderRef.current;
+    if (!loadBitmap) {
+      return;
+    }
+
+    console.log('=== REGION SELECTED ===');
+    console.log('Region:', region);
+
+    scanIdRef.current++;
+    setCropRegion(region);
+    setDetectedObjects([]);
+    searchByImages([
+      async () => {
+        const bitmap = await loadBitmap();
+        try {
+          return await cropBitmap(bitmap, region);
+        } finally {
+          bitmap.close();
+        }
+      },
+    ]);
+  };
+
+  // Go back to searching the whole image
+  const handleClearRegion = () => {
+    if (!imageLoaderRef.current) {
+      return;
+    }
+    setCropRegion(null);
+    searchByImages([imageLoaderRef.current]);
+  };
+
+  // Classify overlapping tiles and group them into objects, one product row each
+  const handleSceneScan = async () => {
+    const loadBitmap = imageLoaderRef.current;
+    if (!loadBitmap) {
+      return;
+    }
+
+    console.log('=== SCENE SCAN STARTED ===');
+    const scanId = ++scanIdRef.current;
+    setCropRegion(null);
+    setIsProcessing(true);
+
+    try {
+      const bitmap = await loadBitmap();
+      const regions = getTileRegions();
+      const tiles: TilePredictions[] = [];
+      try {
+        for (const [index, region] of regions.entries()) {
+          setProgressMessage(`Scanning part ${index + 1}/${regions.length}...`);
+          const predictions = await classifyInWorkerWithFallback(await cropBitmap(bitmap, region));
+          if (scanId !== scanIdRef.current) {
+            console.log('=== SCENE SCAN SUPERSEDED ===');
+            return;
           }
-          setIsProcessing(false);
-          console.log('=== PROCESSING COMPLETE ===');
-        } else {
-          console.error('Image ref is null');
+          tiles.push({ region, predictions });
         }
-      }, 100);
-    };
-    reader.readAsDataURL(file);
+      } finally {
+        bitmap.close();
+      }
+
+      const objects = groupTilePredictions(tiles);
+      console.log('=== SCENE SCAN COMPLETE ===');
+      console.log('Objects:', objects.map((object) => object.className));
+      setDetectedObjects(objects);
+    } catch (error) {
+      console.error('=== ERROR DURING SCENE SCAN ===');
+      console.error('Error:', error);
+      setInputError(`Couldn't scan the image: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    setIsProcessing(false);
+    setProgressMessage(null);
   };
 
-  // Handle search
-  const handleSearch = (query: string) => {
-    console.log('=== SEARCH TRIGGERED ===');
-    console.log('Search query:', query);
+  // Make one detected object the main image search
+  const handleObjectFocus = (object: DetectedObject) => {
+    console.log('=== OBJECT FOCUSED ===', object.className);
+    // Replaces any image search still running, which leaves its spinner to us
+    searchIdRef.current++;
+    setIsProcessing(false);
+    setProgressMessage(null);
 
-    setSearchQuery(query);
-    let filtered = products;
+    setCropRegion(object.bounds);
+    setPredictions(object.predictions);
+    setQueryEmbedding(null);
+    setDetectedColors([]);
+    const result = findMatchingProducts(object.predictions, products, 50);
+    setMatchResult(result);
+    selectLikelyCategory(result);
+  };
+
+  // Live camera results are matched by tags; frames have no feature vector
+  const handleLiveLabels = (preds: Prediction[]) => {
+    console.log('=== LIVE LABELS UPDATED ===');
+    console.log('Top label:', preds[0]?.className);
+    searchIdRef.current++;
+    setIsProcessing(false);
+    setProgressMessage(null);
+
+    setPredictions(preds);
+    setQueryEmbedding(null);
+    setDetectedColors([]);
+    const result = findMatchingProducts(preds, products, 50);
+    setMatchResult(result);
+    selectLikelyCategory(result);
+  };
+
+  // Stop boosting products of a detected color, e.g. when the backdrop was picked up
+  const handleRemoveColor = (name: string) => {
+    console.log('=== COLOR REMOVED ===', name);
+
+    const next = detectedColors.filter((color) => color.name !== name);
+    setDetectedColors(next);
+    setMatchResult(matchProducts(predictions, matchMode, queryEmbedding, productEmbeddings, next));
+  };
+
+  // Keep the frozen frame as the current image so it can be cropped or scanned
+  const handleCameraFreeze = (frame: Blob, preds: Prediction[]) => {
+    console.log('=== CAMERA FRAME FROZEN ===');
 
-    if (predictions.length > 0) {
-      console.log('Applying AI predictions filter');
-      filtered = findMatchingProducts(predictions, products, 50);
-      console.log('After prediction filter:', filtered.length, 'products');
+    const load = () => decodeImageBlob(frame);
+    setCameraOpen(false);
+    showPreview([{ src: URL.createObjectURL(frame), isObjectUrl: true, load }]);
+    if (preds.length > 0) {
+      handleLiveLabels(preds);
+    } else {
+      searchByImages([load]);
     }
+  };
 
-    if (query) {
-      console.log('Applying search query filter');
-      filtered = filterProducts(filtered, query);
-      console.log('After search filter:', filtered.length, 'products');
+  // Search with a catalog product's photo, as linked from its product page
+  const searchByProductImage = useEffectEvent((productId: string) => {
+    const product = products.find((p) => String(p.id) === productId);
+    if (!product) {
+      console.log('Unknown product for image search:', productId);
+      return;
     }
 
-    if (selectedCategory !== 'all') {
-      console.log('Applying category filter:', selectedCategory);
-      filtered = filterByCategory(filtered, selectedCategory);
-      console.log('After category filter:', filtered.length, 'products');
+    console.log('=== PRODUCT IMAGE SEARCH ===');
+    console.log('Product:', product.id, product.name);
+
+    const load = () => loadImageBitmap(product.image);
+    showPreview([{ src: product.image, isObjectUrl: false, load }]);
+    searchByImages([load]);
+  });
+
+  useEffect(() => {
+    const productId = searchParams.get(IMAGE_PRODUCT_PARAM);
+    if (productId) {
+      searchByProductImage(productId);
     }
+  }, [searchParams]);
+
+  // Handle search
+  const handleSearch = (query: string) => {
+    console.log('=== SEARCH TRIGGERED ===');
+    console.log('Search query:', query);
+
+    setSearchQuery(query);
+  };
+
+  // Handle facet changes
+  const handleFiltersChange = (next: FacetFilters) => {
+    console.log('=== FILTERS CHANGE ===');
+    console.log('Filters:', next);
 
-    console.log('Final filtered products:', filtered.length);
-    setDisplayedProducts(filtered);
+    setFilters(next);
+    // The panel shows the auto-selected category, so its changes replace it
+    setAutoCategory(null);
   };
 
-  // Handle category filter
+  // Narrow to a single category, e.g. from the no-match suggestions
   const handleCategoryChange = (category: string) => {
-    console.log('=== CATEGORY CHANGE ===');
-    console.log('Selected category:', category);
+    handleFiltersChange({ ...filters, categories: [category] });
+  };
 
-    setSelectedCategory(category);
-    let filtered = products;
+  // Handle text vs image weight change
+  const handleTextWeightChange = (weight: number) => {
+    setTextWeight(weight);
+  };
 
-    if (predictions.length > 0) {
-      console.log('Applying AI predictions filter');
-      filtered = findMatchingProducts(predictions, products, 50);
-      console.log('After prediction filter:', filtered.length, 'products');
-    }
+  // Handle match mode change
+  const handleMatchModeChange = async (mode: MatchMode) => {
+    console.log('=== MATCH MODE CHANGE ===');
+    console.log('Selected mode:', mode);
 
-    if (searchQuery) {
-      console.log('Applying search query filter:', searchQuery);
-      filtered = filterProducts(filtered, searchQuery);
-      console.log('After search filter:', filtered.length, 'products');
+    setMatchMode(mode);
+    if (predictions.length === 0) {
+      return;
     }
 
-    if (category !== 'all') {
-      console.log('Applying category filter');
-      filtered = filterByCategory(filtered, category);
-      console.log('After category filter:', filtered.length, 'products');
+    setIsProcessing(true);
+    try {
+      const embeddings = mode === 'tags' ? productEmbeddings : await ensureProductEmbeddings();
+      const result = matchProducts(predictions, mode, queryEmbedding, embeddings, detectedColors);
+      setMatchResult(result);
+    } catch (error) {
+      console.error('=== ERROR COMPUTING EMBEDDINGS ===');
+      console.error('Error:', error);
+      setProgressMessage(null);
     }
-
-    console.log('Final filtered products:', filtered.length);
-    setDisplayedProducts(filtered);
+    setIsProcessing(false);
   };
 
   // Reset filters
@@ -167,11 +695,17 @@ export default function Home() {
     console.log('=== RESET TRIGGERED ===');
     console.log('Clearing all filters and predictions');
 
-    setSelectedImage(null);
+    showPreview([]);
     setPredictions([]);
+    setQueryEmbedding(null);
+    setDetectedColors([]);
+    setMatchResult(null);
+    setCameraOpen(false);
+    setImageUrl('');
     setSearchQuery('');
-    setSelectedCategory('all');
-    setDisplayedProducts(products.slice(0, 50));
+    setFilters(EMPTY_FACET_FILTERS);
+    setAutoCategory(null);
+    setSortOption('relevance');
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -179,10 +713,28 @@ export default function Home() {
     console.log('Reset complete - showing', products.slice(0, 50).length, 'products');
   };
 
-  const categories = getCategories(products);
+  const showNoMatch = matchResult?.status === 'none' && !searchQuery && !hasActiveFilters(activeFilters);
+  const likelyCategory = predictions.length > 0 ? matchResult?.categories[0] : undefined;
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+    <div
+      className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800"
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setIsDragging(false);
+        }
+      }}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="fixed inset-0 z-50 m-4 flex items-center justify-center rounded-xl border-4 border-dashed border-blue-500 bg-blue-500/10 text-xl font-semibold text-blue-700 dark:text-blue-300 pointer-events-none">
+          Drop images to search
+        </div>
+      )}
       <div className="container mx-auto px-4 py-8">
         {/* Header */}
         <div className="text-center mb-8">
@@ -192,11 +744,16 @@ export default function Home() {
           <p className="text-gray-600 dark:text-gray-300">
             Upload an image to find matching products from our catalog
           </p>
-          {!modelLoaded && (
+          {(modelState === 'idle' || modelState === 'loading') && (
             <p className="text-sm text-amber-600 dark:text-amber-400 mt-2">
               Loading AI model...
             </p>
           )}
+          {modelState === 'error' && (
+            <p className="text-sm text-red-600 dark:text-red-400 mt-2">
+              The AI model failed to load here, so images are analyzed on our server instead.
+            </p>
+          )}
         </div>
 
         {/* Upload Section */}
@@ -206,31 +763,99 @@ export default function Home() {
               {/* Image Upload */}
               <div className="flex-1">
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Upload Image
+                  Upload Images
                 </label>
                 <input
                   ref={fileInputRef}
                   type="file"
                   accept="image/*"
+                  multiple
                   onChange={handleImageUpload}
-                  disabled={!modelLoaded || isProcessing}
+                  disabled={!canSearchImages || cameraOpen}
                   className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 dark:file:bg-blue-900 dark:file:text-blue-300 disabled:opacity-50"
                 />
-                {selectedImage && (
-                  <div className="mt-4 relative">
-                    <img
-                      ref={imageRef}
-                      src={selectedImage}
-                      alt="Uploaded"
-                      className="w-full h-48 object-cover rounded-lg"
-                      crossOrigin="anonymous"
-                    />
-                    {isProcessing && (
-                      <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center rounded-lg">
-                        <div className="text-white text-center">
-                          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-2"></div>
-                          <p>Analyzing image...</p>
+                {!cameraOpen && (
+                  <button
+                    onClick={() => setCameraOpen(true)}
+                    disabled={modelState !== 'ready' || isProcessing}
+                    className="mt-2 text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                  >
+                    Use camera
+                  </button>
+                )}
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Or drop or paste images anywhere on the page. Several photos of one item are searched together.
+                </p>
+                <label className="mt-1 flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                  <input type="checkbox" checked={augmentImages} onChange={(e) => setAugmentImages(e.target.checked)} className="accent-blue-600" />
+                  Steadier labels: average several crops of each photo (slower)
+                </label>
+                <form onSubmit={handleImageUrlSubmit} className="mt-2 flex gap-2">
+                  <input
+                    type="url"
+                    placeholder="Image URL"
+                    value={imageUrl}
+                    onChange={(e) => setImageUrl(e.target.value)}
+                    disabled={!canSearchImages || cameraOpen}
+                    className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white disabled:opacity-50"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!canSearchImages || cameraOpen || !imageUrl.trim()}
+                    className="px-4 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    Search
+                  </button>
+                </form>
+                {inputError && (
+                  <p className="mt-2 text-sm text-red-600 dark:text-red-400">{inputError}</p>
+                )}
+                {cameraOpen && (
+                  <LiveCamera onStableLabels={handleLiveLabels} onFreeze={handleCameraFreeze} onClose={() => setCameraOpen(false)} />
+                )}
+                {selectedImage && !cameraOpen && (
+                  <div className="mt-4">
+                    <div className="relative inline-block max-w-full rounded-lg overflow-hidden">
+                      <img
+                        src={selectedImage}
+                        alt="Uploaded"
+                        className="block max-w-full max-h-72"
+                        crossOrigin="anonymous"
+                      />
+                      <CropOverlay
+                        region={cropRegion}
+                        objects={detectedObjects.map((object) => ({ label: object.className.split(',')[0], bounds: object.bounds }))}
+                        disabled={isProcessing}
+                        onSelect={handleRegionSelect}
+                      />
+                      {isProcessing && (
+                        <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center">
+                          <div className="text-white text-center">
+                            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-2"></div>
+                            <p>{progressMessage ?? 'Analyzing image...'}</p>
+                          </div>
                         </div>
+                      )}
+                    </div>
+                    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                      <span>Drag on the image to search one area.</span>
+                      {cropRegion && (
+                        <button onClick={handleClearRegion} disabled={isProcessing} className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50">
+                          Use whole image
+                        </button>
+                      )}
+                      <button onClick={handleSceneScan} disabled={isProcessing || !canSearchImages} className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50">
+                        Find multiple objects
+                      </button>
+                    </div>
+                    {extraImages.length > 0 && (
+                      <div className="mt-2 flex items-center gap-2">
+                        {extraImages.map((src) => (
+                          <Image key={src} src={src} alt="Additional view" width={48} height={48} unoptimized className="h-12 w-12 object-cover rounded" />
+                        ))}
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          Searched together with the first photo
+                        </span>
                       </div>
                     )}
                   </div>
@@ -240,6 +865,19 @@ export default function Home() {
               {/* Predictions */}
               {predictions.length > 0 && (
                 <div className="flex-1">
+                  {likelyCategory && (
+                    <p className="mb-3 text-sm text-gray-700 dark:text-gray-300">
+                      Looks like: <span className="font-semibold capitalize">{likelyCategory.category}</span> ({(likelyCategory.probability * 100).toFixed(0)}%)
+                      {activeFilters.categories.includes(likelyCategory.category) && (
+                        <button
+                          onClick={() => handleFiltersChange({ ...filters, categories: [] })}
+                          className="ml-2 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          Show all categories
+                        </button>
+                      )}
+                    </p>
+                  )}
                   <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     AI Detected:
                   </h3>
@@ -263,6 +901,32 @@ export default function Home() {
                       </div>
                     ))}
                   </div>
+                  {detectedColors.length > 0 && (
+                    <>
+                      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mt-4 mb-2">
+                        Colors:
+                      </h3>
+                      <div className="flex flex-wrap gap-2">
+                        {detectedColors.map((color) => {
+                          const rgb = getNamedColor(color.name)?.rgb ?? [128, 128, 128];
+                          return (
+                            <span key={color.name} className="inline-flex items-center gap-1.5 rounded-full bg-gray-100 dark:bg-gray-700 pl-2 pr-1 py-0.5 text-xs text-gray-700 dark:text-gray-300">
+                              <span className="h-3 w-3 rounded-full border border-gray-300 dark:border-gray-500" style={{ backgroundColor: `rgb(${rgb.join(',')})` }} />
+                              {color.name} {(color.share * 100).toFixed(0)}%
+                              <button
+                                onClick={() => handleRemoveColor(color.name)}
+                                disabled={isProcessing}
+                                aria-label={`Remove ${color.name}`}
+                                className="ml-0.5 h-4 w-4 rounded-full leading-none text-gray-500 hover:bg-gray-200 hover:text-gray-800 dark:hover:bg-gray-600 dark:hover:text-white disabled:opacity-50"
+                              >
+                                ×
+                              </button>
+                            </span>
+                          );
+                        })}
+                      </div>
+                    </>
+                  )}
                 </div>
               )}
             </div>
@@ -280,15 +944,14 @@ export default function Home() {
               </div>
               <div>
                 <select
-                  value={selectedCategory}
-                  onChange={(e) => handleCategoryChange(e.target.value)}
-                  className="w-full md:w-48 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  value={matchMode}
+                  onChange={(e) => handleMatchModeChange(e.target.value as MatchMode)}
+                  disabled={isProcessing}
+                  className="w-full md:w-48 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white disabled:opacity-50"
                 >
-                  {categories.map((cat) => (
-                    <option key={cat} value={cat}>
-                      {cat.charAt(0).toUpperCase() + cat.slice(1)}
-                    </option>
-                  ))}
+                  <option value="tags">Match by tags</option>
+                  <option value="visual" disabled={modelState === 'error'}>Looks like this</option>
+                  <option value="blended" disabled={modelState === 'error'}>Blended</option>
                 </select>
               </div>
               <button
@@ -298,53 +961,103 @@ export default function Home() {
                 Reset
               </button>
             </div>
+            {predictions.length > 0 && searchQuery && matchResult?.status !== 'none' && (
+              <div className="mt-4 flex items-center gap-3 text-sm text-gray-600 dark:text-gray-300">
+                <span>Image</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={textWeight}
+                  onChange={(e) => handleTextWeightChange(Number(e.target.value))}
+                  className="flex-1 accent-blue-600"
+                  aria-label="Balance between image and text relevance"
+                />
+                <span>Text</span>
+                <span className="w-10 text-right text-xs text-gray-500 dark:text-gray-400">{Math.round(textWeight * 100)}%</span>
+              </div>
+            )}
           </div>
         </div>
 
-        {/* Products Grid */}
-        <div className="max-w-7xl mx-auto">
-          <div className="mb-4 text-gray-700 dark:text-gray-300">
-            Showing {displayedProducts.length} products
-          </div>
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
-            {displayedProducts.map((product) => (
-              <div
-                key={product.id}
-                className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden hover:shadow-xl transition-shadow"
-              >
-                <div className="relative h-48 bg-gray-200 dark:bg-gray-700">
-                  <Image
-                    src={product.image}
-                    alt={product.name}
-                    fill
-                    className="object-cover"
-                    unoptimized
-                  />
+        {/* One row per object in the scene */}
+        {objectMatches.length > 0 && (
+          <div className="max-w-7xl mx-auto mb-8 space-y-6">
+            {objectMatches.map(({ object, matches }) => (
+              <section key={object.className}>
+                <div className="mb-2 flex items-center gap-3">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white capitalize">{object.className.split(',')[0]}</h2>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{(object.confidence * 100).toFixed(0)}%</span>
+                  <button onClick={() => handleObjectFocus(object)} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                    Search for this
+                  </button>
                 </div>
-                <div className="p-4">
-                  <h3 className="font-semibold text-gray-900 dark:text-white text-sm mb-1 truncate">
-                    {product.name}
-                  </h3>
-                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2 capitalize">
-                    {product.category}
-                  </p>
-                  <p className="text-lg font-bold text-blue-600 dark:text-blue-400">
-                    ${product.price}
-                  </p>
-                  <div className="mt-2 flex flex-wrap gap-1">
-                    {product.tags.slice(0, 2).map((tag, idx) => (
-                      <span
-                        key={idx}
-                        className="text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-1 rounded"
-                      >
-                        {tag}
-                      </span>
+                {matches.length > 0 ? (
+                  <div className="flex gap-4 overflow-x-auto pb-2">
+                    {matches.map((match) => (
+                      <div key={match.product.id} className="w-56 shrink-0">
+                        <ProductCard product={match.product} match={match} />
+                      </div>
                     ))}
                   </div>
-                </div>
-              </div>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No matching products.</p>
+                )}
+              </section>
             ))}
           </div>
+        )}
+
+        {/* Products Grid */}
+        <div className="max-w-7xl mx-auto">
+          {matchResult?.status === 'weak' && (
+            <div className="mb-4 rounded-lg bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 px-4 py-2 text-sm">
+              Weak match: the AI was only {((matchResult.topPredictions[0]?.probability ?? 0) * 100).toFixed(0)}% sure about
+              &quot;{matchResult.topPredictions[0]?.className}&quot;, so these results may not be what you are looking for.
+            </div>
+          )}
+          {showNoMatch ? (
+            <NoMatchState
+              result={matchResult}
+              onQuery={handleSearch}
+              onCategory={handleCategoryChange}
+              onRetry={() => fileInputRef.current?.click()}
+            />
+          ) : (
+            <div className="flex flex-col md:flex-row gap-6">
+              <FacetPanel facets={facets} filters={activeFilters} onChange={handleFiltersChange} />
+              <div className="flex-1 min-w-0">
+                <div className="mb-4 flex flex-wrap items-center justify-between gap-2 text-gray-700 dark:text-gray-300">
+                  <span>
+                    Showing {displayedProducts.length} {matchResult && !searchQuery && !hasActiveFilters(activeFilters) ? 'matches' : 'products'}
+                  </span>
+                  <select
+                    value={sortOption}
+                    onChange={(e) => setSortOption(e.target.value as SortOption)}
+                    className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                    aria-label="Sort by"
+                  >
+                    {(Object.keys(SORT_LABELS) as SortOption[]).map((option) => (
+                      <option key={option} value={option}>
+                        {SORT_LABELS[option]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                  {displayedProducts.map((product) => (
+                    <ProductCard
+                      key={product.id}
+                      product={product}
+                      match={matchScores.get(product.id)}
+                      hybrid={hybridMatches.get(product.id)}
+                    />
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,97 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Product, products } from '@/data/products';
+import { findSimilarProducts } from '@/utils/productMatcher';
+import { EMPTY_SEARCH_STATE, getImageSearchUrl, getSearchUrl } from '@/utils/searchState';
+import ProductCard from '@/components/ProductCard';
+
+interface ProductPageProps {
+  params: Promise<{ id: string }>;
+}
+
+function getProduct(id: string): Product | undefined {
+  return products.find((product) => String(product.id) === id);
+}
+
+export function generateStaticParams() {
+  return products.map((product) => ({ id: String(product.id) }));
+}
+
+export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
+  const product = getProduct((await params).id);
+  return {
+    title: product ? `${product.name} - Image Product Matcher` : 'Product not found - Image Product Matcher',
+    description: product?.description,
+  };
+}
+
+export default async function ProductPage({ params }: ProductPageProps) {
+  const product = getProduct((await params).id);
+  if (!product) {
+    notFound();
+  }
+  const similar = findSimilarProducts(product, products);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto px-4 py-8">
+        <nav className="max-w-5xl mx-auto mb-4 flex gap-4 text-sm">
+          <Link href="/" className="text-blue-600 dark:text-blue-400 hover:underline">
+            ← Back to search
+          </Link>
+          <Link
+            href={getSearchUrl('/search', { ...EMPTY_SEARCH_STATE, filters: { ...EMPTY_SEARCH_STATE.filters, categories: [product.category] } })}
+            className="text-blue-600 dark:text-blue-400 hover:underline capitalize"
+          >
+            More in {product.category}
+          </Link>
+        </nav>
+
+        <div className="max-w-5xl mx-auto mb-10 bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden flex flex-col md:flex-row">
+          <div className="relative h-72 md:h-auto md:w-1/2 bg-gray-200 dark:bg-gray-700">
+            <Image src={product.image} alt={product.name} fill className="object-cover" unoptimized priority />
+          </div>
+          <div className="p-6 md:w-1/2">
+            <p className="text-sm text-gray-500 dark:text-gray-400 capitalize mb-1">{product.category}</p>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{product.name}</h1>
+            <p className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-4">${product.price}</p>
+            <p className="text-gray-700 dark:text-gray-300 mb-6">{product.description}</p>
+            <Link
+              href={getImageSearchUrl(product.id)}
+              className="inline-block px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors mb-6"
+            >
+              Search with this image
+            </Link>
+            <h2 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Tags</h2>
+            <div className="flex flex-wrap gap-1">
+              {product.tags.map((tag) => (
+                <Link
+                  key={tag}
+                  href={getSearchUrl('/search', { ...EMPTY_SEARCH_STATE, filters: { ...EMPTY_SEARCH_STATE.filters, tags: [tag] } })}
+                  className="text-xs px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                >
+                  {tag}
+                </Link>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {similar.length > 0 && (
+          <section className="max-w-7xl mx-auto">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">More like this</h2>
+            <div className="flex gap-6 overflow-x-auto pb-4 snap-x">
+              {similar.map((match) => (
+                <div key={match.product.id} className="w-60 shrink-0 snap-start">
+                  <ProductCard product={match.product} match={match} />
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { products } from '@/data/products';
+import { searchCatalog } from '@/utils/catalogSearch';
+import { FacetFilters, hasActiveFilters } from '@/utils/facets';
+import { getSearchUrl, parseSearchState, SearchParamsRecord, SearchState, toUrlSearchParams } from '@/utils/searchState';
+import ProductCard from '@/components/ProductCard';
+
+interface SearchPageProps {
+  searchParams: Promise<SearchParamsRecord>;
+}
+
+const SORT_LINKS: { sort: SearchState['sort']; label: string }[] = [
+  { sort: 'relevance', label: 'Relevance' },
+  { sort: 'price-asc', label: 'Price ↑' },
+  { sort: 'price-desc', label: 'Price ↓' },
+  { sort: 'name', label: 'Name' },
+];
+
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+function withFilters(state: SearchState, filters: Partial<FacetFilters>): string {
+  return getSearchUrl('/search', { ...state, filters: { ...state.filters, ...filters } });
+}
+
+export async function generateMetadata({ searchParams }: SearchPageProps): Promise<Metadata> {
+  const state = parseSearchState(toUrlSearchParams(await searchParams));
+  const subject = state.query || state.labels[0]?.className.split(',')[0] || state.filters.categories.join(', ');
+  return {
+    title: subject ? `${subject} - Image Product Matcher` : 'Search - Image Product Matcher',
+  };
+}
+
+// Renders text, label and facet results on the server so shared links open on the right results
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const params = toUrlSearchParams(await searchParams);
+  const state = parseSearchState(params);
+  const { matchResult, results, facets } = searchCatalog(state, products);
+  const showNoMatch = matchResult?.status === 'none' && !state.query && !hasActiveFilters(state.filters);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto mb-8 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+          <form action="/search" className="flex flex-col md:flex-row gap-4">
+            <input
+              type="search"
+              name="q"
+              defaultValue={state.query}
+              placeholder="Search products..."
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+            />
+            {/* Keep facets and labels when the query changes */}
+            {[...params.entries()]
+              .filter(([key]) => key !== 'q')
+              .map(([key, value], index) => (
+                <input key={index} type="hidden" name={key} value={value} />
+              ))}
+            <button type="submit" className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+              Search
+            </button>
+            <Link
+              href={getSearchUrl('/', state)}
+              className="px-6 py-2 text-center bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Search by image
+            </Link>
+          </form>
+          {state.labels.length > 0 && (
+            <div className="mt-4 flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <span>Detected:</span>
+              {state.labels.slice(0, 5).map((label) => (
+                <span key={label.className} className="px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700">
+                  {label.className} ({(label.probability * 100).toFixed(1)}%)
+                </span>
+              ))}
+              <Link href={getSearchUrl('/search', { ...state, labels: [] })} className="text-blue-600 dark:text-blue-400 hover:underline">
+                Clear
+              </Link>
+            </div>
+          )}
+        </div>
+
+        <div className="max-w-7xl mx-auto flex flex-col md:flex-row gap-6">
+          <aside className="md:w-60 shrink-0 bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-6 text-sm text-gray-700 dark:text-gray-300 self-start">
+            <section>
+              <h3 className="font-medium mb-2">Category</h3>
+              <ul className="space-y-1">
+                {facets.categories.map((facet) => (
+                  <li key={facet.value}>
+                    <Link
+                      href={withFilters(state, { categories: toggle(state.filters.categories, facet.value) })}
+                      className={`flex justify-between capitalize hover:underline ${
+                        state.filters.categories.includes(facet.value) ? 'font-semibold text-blue-600 dark:text-blue-400' : ''
+                      }`}
+                    >
+                      <span>{facet.value}</span>
+                      <span className="text-xs text-gray-400">{facet.count}</span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </section>
+            {state.filters.priceRange && (
+              <section>
+                <h3 className="font-medium mb-2">Price</h3>
+                <Link href={withFilters(state, { priceRange: null })} className="hover:underline">
+                  ${state.filters.priceRange[0]} – {Number.isFinite(state.filters.priceRange[1]) ? `$${state.filters.priceRange[1]}` : 'any'} ✕
+                </Link>
+              </section>
+            )}
+            {facets.tags.length > 0 && (
+              <section>
+                <h3 className="font-medium mb-2">Top tags</h3>
+                <div className="flex flex-wrap gap-1">
+                  {facets.tags.map((facet) => (
+                    <Link
+                      key={facet.value}
+                      href={withFilters(state, { tags: toggle(state.filters.tags, facet.value) })}
+                      className={`text-xs px-2 py-1 rounded-full ${
+                        state.filters.tags.includes(facet.value)
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      {facet.value} {facet.count}
+                    </Link>
+                  ))}
+                </div>
+              </section>
+            )}
+          </aside>
+
+          <div className="flex-1 min-w-0">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2 text-gray-700 dark:text-gray-300">
+              <span>
+                {showNoMatch ? 'No confident match for these labels' : `Showing ${results.length} products`}
+              </span>
+              <nav className="flex gap-3 text-sm">
+                {SORT_LINKS.map(({ sort, label }) => (
+                  <Link
+                    key={sort}
+                    href={getSearchUrl('/search', { ...state, sort })}
+                    className={state.sort === sort ? 'font-semibold text-blue-600 dark:text-blue-400' : 'hover:underline'}
+                  >
+                    {label}
+                  </Link>
+                ))}
+              </nav>
+            </div>
+            {!showNoMatch && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                {results.map((match) => (
+                  <ProductCard key={match.product.id} product={match.product} hybrid={match} />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
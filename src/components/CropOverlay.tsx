@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { MIN_REGION_SIZE, normalizeRegion, Region } from '@/utils/regionSearch';
+
+interface CropOverlayProps {
+  /** Committed selection, or null for the whole image */
+  region: Region | null;
+  /** Outlines of detected objects, drawn without interaction */
+  objects?: { label: string; bounds: Region }[];
+  disabled?: boolean;
+  onSelect: (region: Region) => void;
+}
+
+const OBJECT_COLORS = ['border-emerald-400', 'border-amber-400', 'border-pink-400', 'border-sky-400'];
+
+function toStyle(region: Region) {
+  return {
+    left: `${region.x * 100}%`,
+    top: `${region.y * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`,
+  };
+}
+
+// Draws a crop box over the image preview it is positioned on, in fractions of the image size
+export default function CropOverlay({ region, objects = [], disabled, onSelect }: CropOverlayProps) {
+  const [draft, setDraft] = useState<Region | null>(null);
+
+  const getPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled) {
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = getPoint(e);
+    setDraft({ x, y, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!draft) {
+      return;
+    }
+    const { x, y } = getPoint(e);
+    setDraft({ ...draft, width: x - draft.x, height: y - draft.y });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) {
+      return;
+    }
+    const selected = normalizeRegion(draft);
+    setDraft(null);
+    if (selected.width >= MIN_REGION_SIZE && selected.height >= MIN_REGION_SIZE) {
+      onSelect(selected);
+    }
+  };
+
+  const box = draft ? normalizeRegion(draft) : region;
+
+  return (
+    <div
+      className={`absolute inset-0 touch-none select-none ${disabled ? '' : 'cursor-crosshair'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDraft(null)}
+    >
+      {objects.map(({ label, bounds }, index) => (
+        <div
+          key={label}
+          className={`absolute border-2 border-dashed ${OBJECT_COLORS[index % OBJECT_COLORS.length]} pointer-events-none`}
+          style={toStyle(bounds)}
+        >
+          <span className="absolute left-0 top-0 px-1 text-xs bg-black/60 text-white">{label}</span>
+        </div>
+      ))}
+      {box && (
+        <div
+          className="absolute border-2 border-blue-500 bg-blue-500/10 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)] pointer-events-none"
+          style={toStyle(box)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { EMPTY_FACET_FILTERS, FacetCounts, FacetFilters, hasActiveFilters } from '@/utils/facets';
+
+interface FacetPanelProps {
+  facets: FacetCounts;
+  filters: FacetFilters;
+  onChange: (filters: FacetFilters) => void;
+}
+
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+export default function FacetPanel({ facets, filters, onChange }: FacetPanelProps) {
+  const bounds = facets.priceBounds;
+  // Sliders stay within the current results even if the stored range is wider
+  const [minPrice, maxPrice] = bounds
+    ? [
+        Math.max(bounds[0], filters.priceRange?.[0] ?? bounds[0]),
+        Math.min(bounds[1], filters.priceRange?.[1] ?? bounds[1]),
+      ]
+    : [0, 0];
+
+  const setPriceRange = (min: number, max: number) => {
+    const isFullRange = bounds && min <= bounds[0] && max >= bounds[1];
+    onChange({ ...filters, priceRange: isFullRange ? null : [min, max] });
+  };
+
+  return (
+    <aside className="md:w-60 shrink-0 bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-6 text-sm text-gray-700 dark:text-gray-300 self-start">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-gray-900 dark:text-white">Filters</h2>
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onChange(EMPTY_FACET_FILTERS)}
+            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      <section>
+        <h3 className="font-medium mb-2">Category</h3>
+        <ul className="space-y-1">
+          {facets.categories.map((facet) => (
+            <li key={facet.value}>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={filters.categories.includes(facet.value)}
+                  onChange={() => onChange({ ...filters, categories: toggle(filters.categories, facet.value) })}
+                  className="accent-blue-600"
+                />
+                <span className="flex-1 capitalize">{facet.value}</span>
+                <span className="text-xs text-gray-400">{facet.count}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {bounds && bounds[0] < bounds[1] && (
+        <section>
+          <h3 className="font-medium mb-2">Price</h3>
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+            <span>${minPrice}</span>
+            <span>${maxPrice}</span>
+          </div>
+          <input
+            type="range"
+            min={bounds[0]}
+            max={bounds[1]}
+            value={minPrice}
+            onChange={(e) => setPriceRange(Math.min(Number(e.target.value), maxPrice), maxPrice)}
+            className="w-full accent-blue-600"
+            aria-label="Minimum price"
+          />
+          <input
+            type="range"
+            min={bounds[0]}
+            max={bounds[1]}
+            value={maxPrice}
+            onChange={(e) => setPriceRange(minPrice, Math.max(Number(e.target.value), minPrice))}
+            className="w-full accent-blue-600"
+            aria-label="Maximum price"
+          />
+        </section>
+      )}
+
+      {facets.tags.length > 0 && (
+        <section>
+          <h3 className="font-medium mb-2">Top tags</h3>
+          <div className="flex flex-wrap gap-1">
+            {facets.tags.map((facet) => {
+              const selected = filters.tags.includes(facet.value);
+              return (
+                <button
+                  key={facet.value}
+                  onClick={() => onChange({ ...filters, tags: toggle(filters.tags, facet.value) })}
+                  className={`text-xs px-2 py-1 rounded-full ${
+                    selected
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {facet.value} <span className={selected ? 'text-blue-100' : 'text-gray-400'}>{facet.count}</span>
+                </button>
+              );
+            })}
+          </div>
+        </section>
+      )}
+    </aside>
+  );
+}
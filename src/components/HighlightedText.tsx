@@ -0,0 +1,27 @@
+interface HighlightedTextProps {
+  text: string;
+  /** Lowercase words to highlight */
+  terms: string[];
+}
+
+// Split on word boundaries so punctuation and spacing are kept as-is
+export default function HighlightedText({ text, terms }: HighlightedTextProps) {
+  if (terms.length === 0) {
+    return <>{text}</>;
+  }
+
+  const highlighted = new Set(terms);
+  return (
+    <>
+      {text.split(/([a-zA-Z0-9]+)/).map((part, index) =>
+        highlighted.has(part.toLowerCase()) ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
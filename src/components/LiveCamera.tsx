@@ -0,0 +1,161 @@
+import { useEffect, useEffectEvent, useRef, useState } from 'react';
+import { Prediction } from '@/utils/imageClassifier';
+import { classifyInWorker } from '@/utils/classifierClient';
+import {
+  DEFAULT_LIVE_MATCH_OPTIONS,
+  INITIAL_LABEL_STABILITY,
+  isLabelStable,
+  LiveMatchOptions,
+  smoothPredictions,
+  updateLabelStability,
+} from '@/utils/predictionSmoothing';
+
+interface LiveCameraProps {
+  options?: LiveMatchOptions;
+  /** Called when a new top label has stayed on top for enough frames */
+  onStableLabels: (predictions: Prediction[]) => void;
+  /** Called with the current frame and smoothed labels when the user freezes */
+  onFreeze: (frame: Blob, predictions: Prediction[]) => void;
+  onClose: () => void;
+}
+
+// Classifies camera frames one at a time with a pause in between, so slow devices aren't flooded
+export default function LiveCamera({
+  options = DEFAULT_LIVE_MATCH_OPTIONS,
+  onStableLabels,
+  onFreeze,
+  onClose,
+}: LiveCameraProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const smoothedRef = useRef<Prediction[]>([]);
+  const [liveLabels, setLiveLabels] = useState<Prediction[]>([]);
+  const [isStable, setIsStable] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const emitStableLabels = useEffectEvent(onStableLabels);
+
+  useEffect(() => {
+    let stopped = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stability = INITIAL_LABEL_STABILITY;
+    let emittedLabel: string | null = null;
+
+    const classifyFrame = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) {
+        return;
+      }
+
+      if (video.readyState >= video.HAVE_CURRENT_DATA) {
+        try {
+          const predictions = await classifyInWorker(await createImageBitmap(video));
+          if (stopped) {
+            return;
+          }
+
+          const smoothed = smoothPredictions(smoothedRef.current, predictions, options.smoothing);
+          smoothedRef.current = smoothed;
+          stability = updateLabelStability(stability, smoothed, options);
+          const stable = isLabelStable(stability, options);
+          setLiveLabels(smoothed);
+          setIsStable(stable);
+
+          // Results only change when a different label settles on top
+          if (stable && stability.className !== emittedLabel) {
+            emittedLabel = stability.className;
+            console.log('[LiveCamera] Stable label:', emittedLabel);
+            emitStableLabels(smoothed);
+          }
+        } catch (err) {
+          console.error('[LiveCamera] Frame classification failed:', err);
+        }
+      }
+
+      timer = setTimeout(classifyFrame, options.frameIntervalMs);
+    };
+
+    (navigator.mediaDevices?.getUserMedia({ video: { facingMode: 'environment' }, audio: false }) ??
+      Promise.reject(new Error('Camera access is not available in this browser')))
+      .then(async (media) => {
+        if (stopped || !videoRef.current) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        videoRef.current.srcObject = media;
+        await videoRef.current.play();
+        console.log('[LiveCamera] Camera started');
+        classifyFrame();
+      })
+      .catch((err: unknown) => {
+        console.error('[LiveCamera] Camera failed to start:', err);
+        if (!stopped) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      });
+
+    return () => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      stream?.getTracks().forEach((track) => track.stop());
+      console.log('[LiveCamera] Camera stopped');
+    };
+  }, [options]);
+
+  // Capture the frame on screen; the camera stops once the parent closes this view
+  const handleFreeze = () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) {
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    canvas.toBlob((blob) => {
+      if (blob) {
+        onFreeze(blob, smoothedRef.current);
+      }
+    }, 'image/jpeg', 0.92);
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="relative rounded-lg overflow-hidden bg-black">
+        <video ref={videoRef} playsInline muted className="block w-full max-h-72 object-contain" />
+        {liveLabels.length > 0 && (
+          <div className="absolute left-2 bottom-2 space-y-0.5 text-xs text-white">
+            {liveLabels.slice(0, 3).map((label, index) => (
+              <div key={label.className} className={`px-2 py-0.5 rounded bg-black/60 ${index === 0 && isStable ? 'ring-1 ring-green-400' : ''}`}>
+                {label.className.split(',')[0]} {(label.probability * 100).toFixed(0)}%
+              </div>
+            ))}
+          </div>
+        )}
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-white bg-black/70">
+            Camera unavailable: {error}
+          </div>
+        )}
+      </div>
+      <div className="mt-2 flex gap-2">
+        <button
+          onClick={handleFreeze}
+          disabled={!!error}
+          className="px-4 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Freeze frame
+        </button>
+        <button onClick={onClose} className="px-4 py-1.5 text-sm bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors">
+          Close camera
+        </button>
+        <span className="self-center text-xs text-gray-500 dark:text-gray-400">
+          {isStable ? 'Results updated' : 'Hold steady...'}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { MatchReason, MatchScore } from '@/utils/productMatcher';
+
+interface MatchExplanationProps {
+  match: MatchScore;
+}
+
+interface ReasonGroup {
+  matched: string;
+  source: 'tag' | 'name' | 'category' | 'color' | 'inferred';
+  exact: boolean;
+  points: number;
+  labels: { className: string; rank: number; probability: number; via: string | null }[];
+}
+
+const SOURCE_LABELS: Record<ReasonGroup['source'], string> = {
+  tag: 'Tag',
+  name: 'Name',
+  category: 'Category',
+  color: 'Color',
+  inferred: 'Looks like',
+};
+
+// Boosts that don't come from a prediction word matching the product
+const BOOST_SOURCES: Partial<Record<MatchReason['kind'], ReasonGroup['source']>> = {
+  color: 'color',
+  inferredCategory: 'inferred',
+};
+
+// Collapse per-word scoring events into one row per matched tag/name word/category
+function groupReasons(reasons: MatchReason[]): ReasonGroup[] {
+  const groups = new Map<string, ReasonGroup>();
+
+  reasons.forEach((reason) => {
+    const source =
+      BOOST_SOURCES[reason.kind] ?? (reason.kind.startsWith('tag') ? 'tag' : reason.kind.startsWith('name') ? 'name' : 'category');
+    const key = `${source}:${reason.matched}`;
+    const group = groups.get(key) ?? { matched: reason.matched, source, exact: false, points: 0, labels: [] };
+
+    group.points += reason.points;
+    group.exact = group.exact || reason.kind === 'tagExact' || reason.kind === 'nameExact' || reason.kind in BOOST_SOURCES;
+    // Taxonomy expansions show the term the class name was expanded to
+    const via = reason.expansion ? `${reason.expansion.relation} "${reason.predictionWord}"` : null;
+    if (!group.labels.some((label) => label.className === reason.predictionClassName && label.via === via)) {
+      group.labels.push({
+        className: reason.predictionClassName,
+        rank: reason.rank,
+        probability: reason.probability,
+        via,
+      });
+    }
+    groups.set(key, group);
+  });
+
+  return [...groups.values()].sort((a, b) => b.points - a.points);
+}
+
+export default function MatchExplanation({ match }: MatchExplanationProps) {
+  const groups = groupReasons(match.reasons);
+  const parts = [
+    { label: 'Tag exact', value: match.breakdown.tagExact },
+    { label: 'Tag partial', value: match.breakdown.tagPartial },
+    { label: 'Name', value: match.breakdown.name },
+    { label: 'Category', value: match.breakdown.category },
+    { label: 'Color', value: match.breakdown.color },
+    { label: 'Likely category', value: match.breakdown.inferredCategory },
+  ].filter((part) => part.value > 0);
+
+  return (
+    <details className="mt-3 text-xs text-gray-600 dark:text-gray-300">
+      <summary className="cursor-pointer select-none text-blue-600 dark:text-blue-400 hover:underline">
+        Why this matched
+      </summary>
+      <div className="mt-2 space-y-2">
+        <div className="flex justify-between font-semibold text-gray-800 dark:text-gray-100">
+          <span>Score</span>
+          <span>{match.score.toFixed(1)}</span>
+        </div>
+        <div className="space-y-0.5">
+          {parts.map((part) => (
+            <div key={part.label} className="flex justify-between">
+              <span>{part.label}</span>
+              <span>{part.value.toFixed(1)}</span>
+            </div>
+          ))}
+        </div>
+        <ul className="space-y-1.5 border-t border-gray-200 dark:border-gray-700 pt-2">
+          {groups.slice(0, 8).map((group) => (
+            <li key={`${group.source}:${group.matched}`}>
+              <div className="flex justify-between gap-2">
+                <span>
+                  <span className="text-gray-400">{SOURCE_LABELS[group.source]} </span>
+                  <mark
+                    className={`px-1 rounded ${
+                      group.exact
+                        ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                        : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+                    }`}
+                  >
+                    {group.matched}
+                  </mark>
+                </span>
+                <span className="shrink-0">+{group.points.toFixed(1)}</span>
+              </div>
+              <div className="text-gray-400">
+                {group.source === 'color'
+                  ? `from ${group.labels.map((label) => `${label.className} in the image (${(label.probability * 100).toFixed(0)}%)`).join(', ')}`
+                  : group.source === 'inferred'
+                  ? `${((group.labels[0]?.probability ?? 0) * 100).toFixed(0)}% likely from the predictions`
+                  : `from ${group.labels
+                      .map(
+                        (label) =>
+                          `"${label.className}" (#${label.rank + 1}, ${(label.probability * 100).toFixed(1)}%)${label.via ? ` via ${label.via}` : ''}`
+                      )
+                      .join(', ')}`}
+              </div>
+            </li>
+          ))}
+        </ul>
+        {groups.length > 8 && <p className="text-gray-400">+{groups.length - 8} more matches</p>}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,60 @@
+import { MatchResult } from '@/utils/productMatcher';
+
+interface NoMatchStateProps {
+  result: MatchResult;
+  onQuery: (query: string) => void;
+  onCategory: (category: string) => void;
+  onRetry: () => void;
+}
+
+export default function NoMatchState({ result, onQuery, onCategory, onRetry }: NoMatchStateProps) {
+  return (
+    <div className="max-w-2xl mx-auto mb-8 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 text-center">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+        No confident match
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        We couldn&apos;t find products that clearly match this photo.
+      </p>
+
+      {result.topPredictions.length > 0 && (
+        <div className="mb-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+            The AI thinks it might be one of these. Search for:
+          </p>
+          <div className="flex flex-wrap justify-center gap-2">
+            {result.topPredictions.map((pred) => (
+              <button
+                key={pred.className}
+                onClick={() => onQuery(pred.className.split(',')[0].trim())}
+                className="px-3 py-1 rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 dark:bg-blue-900 dark:text-blue-300 text-sm"
+              >
+                {pred.className.split(',')[0].trim()}
+                <span className="ml-1 text-xs opacity-70">{(pred.probability * 100).toFixed(0)}%</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {result.categoryGuess && (
+        <p className="text-sm text-gray-700 dark:text-gray-300 mb-4">
+          Closest category:{' '}
+          <button
+            onClick={() => onCategory(result.categoryGuess!)}
+            className="font-semibold text-blue-600 dark:text-blue-400 hover:underline capitalize"
+          >
+            {result.categoryGuess}
+          </button>
+        </p>
+      )}
+
+      <button
+        onClick={onRetry}
+        className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+      >
+        Try another photo
+      </button>
+    </div>
+  );
+}
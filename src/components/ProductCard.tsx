@@ -0,0 +1,80 @@
+import Image from 'next/image';
+import Link from 'next/link';
+import { Product } from '@/data/products';
+import { MatchScore } from '@/utils/productMatcher';
+import { HybridMatch } from '@/utils/hybridRanker';
+import MatchExplanation from '@/components/MatchExplanation';
+import HighlightedText from '@/components/HighlightedText';
+
+interface ProductCardProps {
+  product: Product;
+  match?: MatchScore;
+  hybrid?: HybridMatch;
+}
+
+export default function ProductCard({ product, match, hybrid }: ProductCardProps) {
+  // Prefer the tags that caused the match, highlighted, over the first catalog tags
+  const matchedTags = match?.matchedTags.filter((tag) => !tag.startsWith('name:')) ?? [];
+  const searchTerms = hybrid?.matchedTerms ?? [];
+  // Otherwise show tags containing a searched word first
+  const searchedTags = product.tags.filter((tag) =>
+    tag.toLowerCase().split(/[^a-z0-9]+/).some((word) => searchTerms.includes(word))
+  );
+  const cardTags = matchedTags.length > 0 ? matchedTags : searchedTags.length > 0 ? searchedTags : product.tags;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden hover:shadow-xl transition-shadow">
+      <Link href={`/products/${product.id}`} className="block relative h-48 bg-gray-200 dark:bg-gray-700">
+        <Image
+          src={product.image}
+          alt={product.name}
+          fill
+          className="object-cover"
+          unoptimized
+        />
+      </Link>
+      <div className="p-4">
+        <h3 className="font-semibold text-gray-900 dark:text-white text-sm mb-1 truncate">
+          <Link href={`/products/${product.id}`} className="hover:underline">
+            <HighlightedText text={product.name} terms={searchTerms} />
+          </Link>
+        </h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2 capitalize">
+          {product.category}
+        </p>
+        <p className="text-lg font-bold text-blue-600 dark:text-blue-400">
+          ${product.price}
+        </p>
+        <div className="mt-2 flex flex-wrap gap-1">
+          {cardTags.slice(0, 2).map((tag, idx) => (
+            <span
+              key={idx}
+              className={`text-xs px-2 py-1 rounded ${
+                matchedTags.length > 0 || searchedTags.length > 0
+                  ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+              }`}
+            >
+              <HighlightedText text={tag} terms={searchTerms} />
+            </span>
+          ))}
+        </div>
+        {hybrid && hybrid.signals.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1 text-xs">
+            {hybrid.signals.includes('image') && (
+              <span className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-200">
+                Image {Math.round(hybrid.imageScore * 100)}%
+              </span>
+            )}
+            {hybrid.signals.includes('text') && (
+              <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 dark:bg-amber-900 dark:text-amber-200">
+                Text: {[...new Set(hybrid.matchedTerms)].join(', ')}
+              </span>
+            )}
+          </div>
+        )}
+        {match && <MatchExplanation match={match} />}
+      </div>
+    </div>
+  );
+}
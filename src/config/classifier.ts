@@ -0,0 +1,114 @@
+/**
+ * Which image classifier the app runs, and where its weights are served from.
+ * Model files are served from /public/models so the app works offline and
+ * under a strict CSP. They are not in the repository: run
+ * `npm run models:download` (optionally with preset names) to fetch them.
+ */
+
+export interface MobileNetClassifierConfig {
+  kind: "mobilenet";
+  /** Unique name, also used as the IndexedDB cache key */
+  name: string;
+  version: 1 | 2;
+  alpha: 0.25 | 0.5 | 0.75 | 1.0;
+  /** Self-hosted graph model, e.g. /models/mobilenet_v2_050_224/model.json */
+  modelUrl: string;
+}
+
+export interface GraphModelClassifierConfig {
+  kind: "graph";
+  /** Unique name, also used as the IndexedDB cache key */
+  name: string;
+  modelUrl: string;
+  /** JSON array of class names, in output order */
+  labelsUrl: string;
+  /** Square input size in pixels */
+  inputSize: number;
+  /** Pixel range the model was trained on */
+  inputRange: [number, number];
+  /** Output node to read the feature vector from; embeddings are unavailable without it */
+  embeddingNode?: string;
+  /** Number of leading outputs without a label (e.g. 1 for a "background" class) */
+  labelOffset?: number;
+}
+
+export type ClassifierConfig =
+  MobileNetClassifierConfig | GraphModelClassifierConfig;
+
+export const CLASSIFIER_PRESETS: Record<string, ClassifierConfig> = {
+  "mobilenet-v1-0.5": {
+    kind: "mobilenet",
+    name: "mobilenet_v1_050_224",
+    version: 1,
+    alpha: 0.5,
+    modelUrl: "/models/mobilenet_v1_050_224/model.json",
+  },
+  "mobilenet-v1-1.0": {
+    kind: "mobilenet",
+    name: "mobilenet_v1_100_224",
+    version: 1,
+    alpha: 1.0,
+    modelUrl: "/models/mobilenet_v1_100_224/model.json",
+  },
+  // Default: good accuracy at a fraction of the full model's cost
+  "mobilenet-v2-0.5": {
+    kind: "mobilenet",
+    name: "mobilenet_v2_050_224",
+    version: 2,
+    alpha: 0.5,
+    modelUrl: "/models/mobilenet_v2_050_224/model.json",
+  },
+  "mobilenet-v2-1.0": {
+    kind: "mobilenet",
+    name: "mobilenet_v2_100_224",
+    version: 2,
+    alpha: 1.0,
+    modelUrl: "/models/mobilenet_v2_100_224/model.json",
+  },
+  // Fine-tuned product graph model; drop its files in /public/models/custom
+  custom: {
+    kind: "graph",
+    name: "custom_product_classifier",
+    modelUrl: "/models/custom/model.json",
+    labelsUrl: "/models/custom/labels.json",
+    inputSize: 224,
+    inputRange: [0, 1],
+  },
+};
+
+/** The preset used unless NEXT_PUBLIC_CLASSIFIER_MODEL names another */
+export const DEFAULT_CLASSIFIER = "mobilenet-v2-0.5";
+
+// All MobileNet presets are the 224px variants
+const MOBILENET_INPUT_SIZE = 224;
+
+/**
+ * Square input size the classifier was trained on, in pixels
+ */
+export function getInputSize(config: ClassifierConfig): number {
+  return config.kind === "graph" ? config.inputSize : MOBILENET_INPUT_SIZE;
+}
+
+/**
+ * Precomputed catalog embeddings for a classifier, written by
+ * `npm run embeddings:build` (not in the repository)
+ */
+export function getEmbeddingsUrl(config: ClassifierConfig): string {
+  return `/embeddings/${config.name}.json`;
+}
+
+/**
+ * Resolve the classifier to use, from NEXT_PUBLIC_CLASSIFIER_MODEL if set
+ */
+export function getClassifierConfig(
+  name: string = process.env.NEXT_PUBLIC_CLASSIFIER_MODEL ?? DEFAULT_CLASSIFIER
+): ClassifierConfig {
+  const config = CLASSIFIER_PRESETS[name];
+  if (!config) {
+    console.warn(
+      `[ClassifierConfig] Unknown classifier "${name}", using ${DEFAULT_CLASSIFIER}`
+    );
+    return CLASSIFIER_PRESETS[DEFAULT_CLASSIFIER];
+  }
+  return config;
+}
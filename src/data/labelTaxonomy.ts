@@ -0,0 +1,247 @@
+/**
+ * Maps MobileNet (ImageNet) class names onto the product vocabulary.
+ *
+ * Keys are single ImageNet synonyms, lowercased: "cellular telephone, cellular
+ * phone, cellphone" is looked up as "cellular telephone", "cellular phone" and
+ * "cellphone". `broader` terms can themselves have entries, forming hypernym
+ * chains such as "espresso maker" -> "coffee maker" -> "kitchen appliance".
+ * Only classes relevant to the catalog are listed; unknown labels are matched
+ * as-is.
+ */
+export interface LabelMapping {
+  /** Terms that mean the same thing in our catalog */
+  synonyms?: string[];
+  /** More general term in our catalog vocabulary */
+  broader?: string;
+}
+
+export const LABEL_TAXONOMY: Record<string, LabelMapping> = {
+  // Phones, computers and electronics
+  "cellular telephone": {
+    synonyms: ["smartphone", "mobile phone"],
+    broader: "phone",
+  },
+  "dial telephone": { broader: "phone" },
+  phone: { broader: "mobile device" },
+  "hand-held computer": { synonyms: ["pda"], broader: "mobile device" },
+  ipod: { synonyms: ["music player"], broader: "mobile device" },
+  "mobile device": { broader: "electronics" },
+  "notebook computer": { synonyms: ["laptop"], broader: "computer" },
+  laptop: { synonyms: ["notebook computer"], broader: "computer" },
+  "desktop computer": { broader: "computer" },
+  "computer keyboard": {
+    synonyms: ["keyboard"],
+    broader: "computer accessory",
+  },
+  "computer mouse": { broader: "computer accessory" },
+  "computer accessory": { broader: "computer" },
+  computer: { broader: "electronics" },
+  monitor: { synonyms: ["display", "screen"], broader: "electronics" },
+  television: { synonyms: ["tv"], broader: "electronics" },
+  "remote control": { synonyms: ["remote"], broader: "electronics" },
+  "digital watch": {
+    synonyms: ["smartwatch", "smart watch"],
+    broader: "watch",
+  },
+  watch: { broader: "wearable" },
+  "reflex camera": { synonyms: ["dslr", "digital camera"], broader: "camera" },
+  "polaroid camera": { synonyms: ["instant camera"], broader: "camera" },
+  camera: { broader: "electronics" },
+  loudspeaker: { synonyms: ["speaker"], broader: "audio" },
+  headphone: { synonyms: ["headphones", "headset"], broader: "audio" },
+  audio: { broader: "electronics" },
+  joystick: { synonyms: ["game controller"], broader: "gaming" },
+  gaming: { broader: "electronics" },
+
+  // Clothing and footwear
+  jean: { synonyms: ["jeans", "denim"], broader: "clothing" },
+  "running shoe": { synonyms: ["sneaker", "trainers"], broader: "shoe" },
+  loafer: { broader: "shoe" },
+  sandal: { broader: "shoe" },
+  clog: { broader: "shoe" },
+  "cowboy boot": { synonyms: ["boot"], broader: "shoe" },
+  shoe: { synonyms: ["footwear"], broader: "clothing" },
+  jersey: { synonyms: ["t-shirt", "tee"], broader: "shirt" },
+  sweatshirt: { synonyms: ["hoodie"], broader: "clothing" },
+  shirt: { broader: "clothing" },
+  "trench coat": { broader: "coat" },
+  "fur coat": { broader: "coat" },
+  coat: { synonyms: ["jacket"], broader: "outerwear" },
+  outerwear: { broader: "clothing" },
+  cardigan: { synonyms: ["sweater"], broader: "clothing" },
+
+  // Bags, eyewear and hats
+  sunglasses: { synonyms: ["sunglass", "shades"], broader: "eyewear" },
+  sunglass: { synonyms: ["sunglasses"], broader: "eyewear" },
+  eyewear: { broader: "accessories" },
+  backpack: { synonyms: ["knapsack", "rucksack"], broader: "bag" },
+  purse: { synonyms: ["handbag"], broader: "bag" },
+  mailbag: { broader: "bag" },
+  bag: { broader: "accessories" },
+  wallet: { broader: "accessories" },
+  "cowboy hat": { broader: "hat" },
+  sombrero: { broader: "hat" },
+  hat: { synonyms: ["cap"], broader: "headwear" },
+  headwear: { broader: "accessories" },
+
+  // Furniture and home
+  "folding chair": { broader: "chair" },
+  "rocking chair": { broader: "chair" },
+  "barber chair": { broader: "chair" },
+  chair: { synonyms: ["seat"], broader: "furniture" },
+  "studio couch": { synonyms: ["sofa", "couch"], broader: "furniture" },
+  "four-poster": { synonyms: ["bed"], broader: "bed" },
+  bed: { broader: "furniture" },
+  "dining table": { synonyms: ["table"], broader: "table" },
+  desk: { broader: "table" },
+  table: { broader: "furniture" },
+  "table lamp": { synonyms: ["desk lamp"], broader: "lamp" },
+  lampshade: { broader: "lamp" },
+  lamp: { synonyms: ["light"], broader: "lighting" },
+
+  // Sports and outdoors
+  "mountain bike": { synonyms: ["mtb"], broader: "bicycle" },
+  "bicycle-built-for-two": { broader: "bicycle" },
+  bicycle: { synonyms: ["bike"], broader: "sports equipment" },
+  racket: {
+    synonyms: ["racquet", "tennis racket"],
+    broader: "sports equipment",
+  },
+  "tennis ball": { broader: "ball" },
+  basketball: { broader: "ball" },
+  "soccer ball": { broader: "ball" },
+  volleyball: { broader: "ball" },
+  ball: { broader: "sports equipment" },
+  "mountain tent": {
+    synonyms: ["tent", "camping tent"],
+    broader: "camping gear",
+  },
+  "sleeping bag": { broader: "camping gear" },
+
+  // Kitchen and dining
+  "espresso maker": { synonyms: ["espresso machine"], broader: "coffee maker" },
+  coffeepot: { synonyms: ["coffee pot"], broader: "coffee maker" },
+  "coffee maker": { broader: "kitchen appliance" },
+  toaster: { broader: "kitchen appliance" },
+  microwave: { broader: "kitchen appliance" },
+  dishwasher: { broader: "kitchen appliance" },
+  "waffle iron": { broader: "kitchen appliance" },
+  "crock pot": { synonyms: ["slow cooker"], broader: "kitchen appliance" },
+  "kitchen appliance": { broader: "appliance" },
+  "frying pan": { synonyms: ["skillet", "pan"], broader: "cookware" },
+  wok: { broader: "cookware" },
+  "dutch oven": { broader: "cookware" },
+  "mixing bowl": { broader: "kitchenware" },
+  cookware: { broader: "kitchenware" },
+  "coffee mug": { synonyms: ["mug"], broader: "drinkware" },
+  cup: { synonyms: ["mug"], broader: "drinkware" },
+  goblet: { synonyms: ["wine glass"], broader: "drinkware" },
+  "beer glass": { broader: "drinkware" },
+  drinkware: { broader: "tableware" },
+  plate: { synonyms: ["dinner plate", "dish"], broader: "tableware" },
+  teapot: { synonyms: ["tea pot"], broader: "tea set" },
+  "tea set": { broader: "tableware" },
+
+  // Drinks
+  "wine bottle": { broader: "bottle" },
+  "beer bottle": { broader: "bottle" },
+  "water bottle": { broader: "bottle" },
+  "red wine": { synonyms: ["wine"], broader: "beverage" },
+  espresso: { synonyms: ["coffee"], broader: "beverage" },
+
+  // Books and stationery
+  "book jacket": { synonyms: ["book"], broader: "books" },
+  "comic book": { synonyms: ["book"], broader: "books" },
+  binder: { synonyms: ["notebook", "ring binder"], broader: "stationery" },
+  "fountain pen": { synonyms: ["pen"], broader: "writing instrument" },
+  ballpoint: {
+    synonyms: ["ballpoint pen", "pen"],
+    broader: "writing instrument",
+  },
+  quill: { synonyms: ["pen"], broader: "writing instrument" },
+  "writing instrument": { broader: "stationery" },
+
+  // Toys and games
+  "jigsaw puzzle": { synonyms: ["puzzle"], broader: "game" },
+  "crossword puzzle": { synonyms: ["puzzle"], broader: "game" },
+  teddy: { synonyms: ["teddy bear", "stuffed animal"], broader: "toy" },
+
+  // Beauty
+  "hand blower": {
+    synonyms: ["hair dryer", "blow dryer"],
+    broader: "hair appliance",
+  },
+  "hair spray": { broader: "cosmetic" },
+  lotion: { broader: "cosmetic" },
+  lipstick: { broader: "makeup" },
+  "face powder": { broader: "makeup" },
+  perfume: { synonyms: ["fragrance"], broader: "cosmetic" },
+  makeup: { broader: "cosmetic" },
+
+  // Vehicles
+  "sports car": { broader: "car" },
+  convertible: { broader: "car" },
+  minivan: { broader: "car" },
+  jeep: { broader: "car" },
+  vacuum: { synonyms: ["vacuum cleaner"], broader: "appliance" },
+
+  // Pets: ImageNet has ~120 dog breeds and several cat breeds
+  "golden retriever": { broader: "dog" },
+  "labrador retriever": { broader: "dog" },
+  "german shepherd": { broader: "dog" },
+  beagle: { broader: "dog" },
+  pug: { broader: "dog" },
+  chihuahua: { broader: "dog" },
+  "toy poodle": { broader: "dog" },
+  "miniature poodle": { broader: "dog" },
+  "standard poodle": { broader: "dog" },
+  kuvasz: { broader: "dog" },
+  "siberian husky": { broader: "dog" },
+  "border collie": { broader: "dog" },
+  dalmatian: { broader: "dog" },
+  boxer: { broader: "dog" },
+  "french bulldog": { broader: "dog" },
+  "shih-tzu": { broader: "dog" },
+  pomeranian: { broader: "dog" },
+  rottweiler: { broader: "dog" },
+  "yorkshire terrier": { broader: "dog" },
+  "cocker spaniel": { broader: "dog" },
+  dog: { synonyms: ["puppy"], broader: "pet" },
+  tabby: { broader: "cat" },
+  "tiger cat": { broader: "cat" },
+  "persian cat": { broader: "cat" },
+  "siamese cat": { broader: "cat" },
+  "egyptian cat": { broader: "cat" },
+  cat: { synonyms: ["kitten"], broader: "pet" },
+
+  // Garden
+  flowerpot: { synonyms: ["plant pot", "planter"], broader: "garden supplies" },
+  "watering can": { broader: "garden tool" },
+  shovel: { synonyms: ["spade"], broader: "garden tool" },
+  "lawn mower": { broader: "garden tool" },
+  "garden tool": { broader: "garden supplies" },
+};
+
+/**
+ * Vocabulary terms that indicate a catalog category, beyond its own name
+ */
+export const CATEGORY_ALIASES: Record<string, string[]> = {
+  electronics: ["computer", "mobile device", "audio", "camera", "gaming"],
+  clothing: ["shoe", "shirt", "coat", "outerwear"],
+  accessories: ["bag", "eyewear", "headwear", "wearable"],
+  furniture: ["chair", "table", "bed"],
+  home: ["lighting", "lamp"],
+  sports: ["sports equipment", "bicycle", "ball"],
+  outdoors: ["camping gear"],
+  kitchen: ["kitchen appliance", "cookware", "kitchenware"],
+  dining: ["tableware", "drinkware"],
+  books: ["book"],
+  stationery: ["writing instrument"],
+  games: ["game", "puzzle"],
+  toys: ["toy"],
+  beauty: ["cosmetic", "makeup", "hair appliance"],
+  beverages: ["beverage", "bottle", "tea set"],
+  automotive: ["car"],
+  pets: ["pet", "dog", "cat"],
+  garden: ["garden tool", "garden supplies"],
+};
@@ -1,3 +1,5 @@
+import catalog from "./catalog.json";
+
 export interface Product {
   id: number;
   name: string;
@@ -8,78 +10,6 @@ export interface Product {
   description: string;
 }
 
-export const products: Product[] = [
-  // Electronics
-  { id: 1, name: "Smartphone X1", category: "electronics", tags: ["phone", "mobile", "device","hand-held computer","hand-held microcomputer", "cellular phone", "smartphone","cellular telephone","cellular phone", "cellphone", "cell", "mobile phone", "cell phone","remote", "mobile phone", "android", "ios", "iphone", "samsung", "technology", "communication", "gadget", "electronics", "touchscreen", "screen", "display", "5g", "4g", "wireless", "portable", "handheld", "smart device", "mobile device", "cellular device", "telecommunication", "digital", "modern", "sleek", "premium", "flagship", "camera phone", "video call", "messaging", "app", "application", "connectivity", "internet", "web", "social media", "photography", "selfie", "portrait", "multimedia", "entertainment", "streaming", "gaming", "business", "productivity", "work", "professional", "personal", "lifestyle", "tech gadget", "innovation", "cutting edge", "advanced", "high-tech", "state-of-the-art", "latest", "new", "modern design", "aluminum", "glass", "metal", "black", "white", "silver", "gold", "rose gold", "blue", "pocket", "convenient", "everyday", "essential", "must-have", "popular", "trending", "bestseller", "gift", "present", "luxury", "expensive", "investment", "upgrade", "replacement", "accessories", "charger", "case", "screen protector", "earbuds", "wireless charging", "fast charging", "battery", "power", "performance", "processor", "RAM", "storage", "memory", "AI", "artificial intelligence", "face recognition", "fingerprint", "security", "privacy", "biometric", "unlock", "password"], image: "https://images.unsplash.com/photo-1511707171634-5f897ff02aa9?w=400", price: 699, description: "Latest smartphone with advanced features" },
-  { id: 2, name: "Laptop Pro 15", category: "electronics", tags: ["laptop", "computer", "notebook", "notebook computer", "pc", "personal computer", "portable computer", "macbook", "windows", "linux", "ultrabook", "workstation", "computing", "technology", "electronics", "device", "machine", "hardware", "software", "screen", "display", "monitor", "keyboard", "touchpad", "trackpad", "mouse", "processor", "cpu", "gpu", "graphics", "ram", "memory", "storage", "ssd", "hard drive", "intel", "amd", "nvidia", "performance", "power", "speed", "fast", "efficient", "productivity", "work", "business", "professional", "enterprise", "office", "remote work", "home office", "student", "education", "learning", "school", "university", "college", "research", "programming", "coding", "development", "software development", "design", "graphic design", "video editing", "photo editing", "creative", "gaming", "entertainment", "streaming", "multimedia", "portable", "mobile", "travel", "lightweight", "thin", "sleek", "premium", "luxury", "high-end", "expensive", "investment", "upgrade", "modern", "contemporary", "aluminum", "metal", "silver", "black", "gray", "space gray", "gold", "webcam", "camera", "microphone", "speakers", "audio", "wifi", "wireless", "bluetooth", "usb", "ports", "connectivity", "internet", "web", "browsing", "email", "communication", "collaboration", "productivity tool", "essential", "must-have", "reliable", "durable", "quality", "flagship", "latest", "new", "advanced", "cutting-edge", "innovative"], image: "https://images.unsplash.com/photo-1496181133206-80ce9b88a853?w=400", price: 1299, description: "Professional laptop for work and gaming" },
-  { id: 3, name: "Wireless Headphones", category: "electronics", tags: ["headphone", "audio", "earphone", "headset","electric","electronics","keyboard","mouse", "wireless headphones", "bluetooth headphones", "over-ear", "on-ear", "headband", "earcups", "ear pads", "cushions", "sound", "music", "listening", "audio equipment", "speakers", "drivers", "acoustics", "bass", "treble", "frequency", "hi-fi", "high fidelity", "premium sound", "quality audio", "noise cancelling", "noise cancellation", "anc", "active noise cancelling", "ambient", "isolation", "quiet", "silence", "focus", "concentration", "immersive", "wireless", "bluetooth", "connectivity", "pairing", "portable", "mobile", "travel", "commute", "airplane", "train", "bus", "gym", "workout", "fitness", "exercise", "running", "sports", "entertainment", "gaming", "movies", "tv", "video", "streaming", "podcast", "audiobook", "calls", "phone calls", "microphone", "mic", "hands-free", "communication", "work", "remote work", "office", "home office", "zoom", "meetings", "conference", "battery", "rechargeable", "charging", "usb", "long battery", "playtime", "comfortable", "ergonomic", "lightweight", "padded", "soft", "adjustable", "foldable", "compact", "storage", "case", "carrying case", "premium", "luxury", "expensive", "high-end", "professional", "studio", "black", "white", "silver", "gray", "red", "blue", "modern", "sleek", "stylish", "fashionable", "trendy", "popular", "bestseller", "gift", "present", "essential", "must-have", "technology", "gadget", "electronics", "accessory", "lifestyle"], image: "https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=400", price: 199, description: "Premium noise-cancelling headphones" },
-  { id: 4, name: "Smart Watch", category: "electronics", tags: ["watch", "wristwatch", "smartwatch", "digital watch", "smart watch", "fitness watch", "activity tracker", "fitness tracker", "health tracker", "wearable", "wearable tech", "wearable technology", "apple watch", "samsung watch", "garmin", "fitbit", "technology", "electronics", "gadget", "device", "timepiece", "clock", "time", "timer", "stopwatch", "alarm", "notification", "alert", "display", "screen", "touchscreen", "digital", "lcd", "amoled", "retina", "fitness", "health", "wellness", "exercise", "workout", "training", "running", "walking", "cycling", "swimming", "sports", "athletics", "steps", "pedometer", "distance", "calories", "heart rate", "pulse", "blood pressure", "oxygen", "spo2", "ecg", "ekg", "sleep", "sleep tracking", "sleep monitor", "activity", "daily activity", "goals", "progress", "achievements", "motivation", "lifestyle", "healthy living", "apps", "applications", "smartphone", "phone", "connectivity", "bluetooth", "wireless", "sync", "pairing", "ios", "android", "compatible", "notifications", "messages", "calls", "email", "social media", "music", "control", "remote", "camera", "photos", "gps", "location", "navigation", "maps", "weather", "forecast", "battery", "charging", "wireless charging", "waterproof", "water resistant", "durable", "sturdy", "band", "strap", "wristband", "silicone", "rubber", "metal", "leather", "adjustable", "comfortable", "lightweight", "stylish", "fashion", "accessory", "modern", "contemporary", "sleek", "premium", "luxury", "gift", "present", "black", "silver", "gold", "rose gold", "white", "blue", "red", "everyday", "essential", "must-have", "popular", "trending"], image: "https://images.unsplash.com/photo-1523275335684-37898b6baf30?w=400", price: 299, description: "Fitness tracking smart watch" },
-  { id: 5, name: "Tablet Pro", category: "electronics", tags: ["tablet", "ipad","hand-held computer", "hand-held microcomputer", "device", "touchscreen", "tablet computer", "portable device", "mobile device", "android tablet", "ios tablet", "samsung tablet", "microsoft surface", "slate", "touch device", "electronics", "technology", "gadget", "computing", "digital", "screen", "display", "retina", "lcd", "amoled", "high resolution", "hd", "4k", "multimedia", "entertainment", "media", "content", "consumption", "browsing", "web", "internet", "email", "social media", "apps", "applications", "productivity", "work", "business", "professional", "office", "documents", "spreadsheet", "presentation", "notes", "note-taking", "drawing", "sketch", "art", "design", "creative", "digital art", "illustration", "stylus", "pen", "apple pencil", "s-pen", "pressure sensitive", "precision", "education", "learning", "school", "student", "study", "reading", "ebook", "e-reader", "books", "magazines", "comics", "pdf", "research", "remote learning", "online classes", "video call", "zoom", "meetings", "conference", "gaming", "games", "casual gaming", "streaming", "video", "youtube", "netflix", "movies", "tv shows", "music", "audio", "photos", "photography", "camera", "video recording", "portable", "mobile", "travel", "airplane", "lightweight", "thin", "sleek", "compact", "modern", "contemporary", "premium", "luxury", "high-end", "expensive", "aluminum", "metal", "glass", "black", "silver", "white", "gray", "space gray", "gold", "rose gold", "wifi", "cellular", "5g", "4g", "lte", "connectivity", "bluetooth", "wireless", "usb-c", "charging", "battery", "long battery", "performance", "processor", "ram", "storage", "memory", "accessory", "keyboard", "case", "cover", "stand", "gift", "present", "upgrade", "replacement"], image: "https://images.unsplash.com/photo-1561154464-82e9adf32764?w=400", price: 599, description: "10-inch tablet with stylus support" },
-  { id: 6, name: "4K Camera", category: "electronics", tags: ["camera", "reflex camera", "digital camera", "photographic equipment", "dslr", "mirrorless", "slr", "photography", "photo", "picture", "image", "video", "videography", "filming", "recording", "4k", "ultra hd", "uhd", "high resolution", "professional camera", "pro camera", "canon", "nikon", "sony", "fujifilm", "olympus", "panasonic", "lens", "optics", "zoom", "telephoto", "wide angle", "macro", "aperture", "shutter", "iso", "exposure", "focus", "autofocus", "manual focus", "sensor", "full frame", "crop sensor", "aps-c", "megapixel", "mp", "resolution", "quality", "image quality", "clarity", "sharp", "sharpness", "detail", "bokeh", "depth of field", "viewfinder", "lcd", "screen", "display", "touchscreen", "menu", "settings", "controls", "buttons", "dials", "grip", "body", "weather sealed", "rugged", "durable", "professional", "semi-professional", "enthusiast", "hobbyist", "beginner", "advanced", "expert", "photographer", "videographer", "content creator", "influencer", "vlogger", "youtuber", "filmmaker", "cinematographer", "creative", "artistic", "art", "portfolio", "project", "shoot", "photoshoot", "session", "studio", "outdoor", "landscape", "portrait", "wildlife", "sports", "action", "street photography", "documentary", "wedding", "event", "commercial", "fashion", "product photography", "travel", "adventure", "nature", "architecture", "still life", "journalism", "photojournalism", "equipment", "gear", "kit", "accessories", "tripod", "flash", "lighting", "memory card", "sd card", "battery", "charger", "strap", "bag", "case", "filter", "hood", "cap", "mount", "electronic", "technology", "digital", "modern", "advanced", "cutting-edge", "innovation", "high-tech", "premium", "luxury", "expensive", "investment", "professional grade", "black", "silver", "gray", "metal", "plastic", "compact", "lightweight", "portable", "handheld"], image: "https://images.unsplash.com/photo-1516035069371-29a1b244cc32?w=400", price: 899, description: "Professional 4K digital camera" },
-  { id: 7, name: "Gaming Console", category: "electronics", tags: ["console", "game", "gaming", "entertainment", "gaming console", "video game console", "game system", "playstation", "xbox", "nintendo", "switch", "ps5", "ps4", "xbox series", "gaming machine", "electronics", "technology", "device", "hardware", "video games", "games", "gaming system", "next-gen", "next generation", "current gen", "gamer", "gaming enthusiast", "player", "multiplayer", "online", "internet", "network", "gaming network", "psn", "xbox live", "nintendo online", "streaming", "game streaming", "4k", "hd", "graphics", "visuals", "performance", "fps", "frame rate", "resolution", "ray tracing", "rtx", "processor", "cpu", "gpu", "ssd", "storage", "hard drive", "memory", "ram", "loading", "fast loading", "quick resume", "controller", "gamepad", "joystick", "buttons", "triggers", "wireless", "bluetooth", "haptic", "vibration", "feedback", "adaptive", "motion control", "vr", "virtual reality", "psvr", "headset", "immersive", "experience", "gameplay", "playing", "fun", "excitement", "action", "adventure", "rpg", "fps", "shooter", "sports", "racing", "fighting", "strategy", "simulation", "platformer", "exclusive", "titles", "aaa", "indie", "digital", "physical", "disc", "download", "store", "marketplace", "subscription", "gamepass", "ps plus", "family", "kids", "children", "adults", "teens", "casual", "hardcore", "competitive", "esports", "tournament", "achievements", "trophies", "friends", "social", "party", "chat", "voice chat", "communication", "living room", "home", "tv", "television", "hdmi", "monitor", "setup", "entertainment center", "media", "apps", "netflix", "youtube", "spotify", "music", "video", "blu-ray", "dvd", "sleek", "modern", "design", "compact", "black", "white", "digital edition", "gift", "present", "christmas", "birthday", "popular", "trending", "bestseller", "must-have", "bundle", "accessories"], image: "https://images.unsplash.com/photo-1486401899868-0e435ed85128?w=400", price: 499, description: "Next-gen gaming console" },
-  { id: 8, name: "Bluetooth Speaker", category: "electronics", tags: ["speaker", "audio", "loudspeaker", "sound", "bluetooth speaker", "wireless speaker", "portable speaker", "mini speaker", "compact speaker", "music", "audio device", "sound system", "electronics", "technology", "gadget", "accessory", "bluetooth", "wireless", "connectivity", "pairing", "streaming", "music streaming", "spotify", "apple music", "youtube", "sound quality", "bass", "treble", "volume", "loud", "clear", "crisp", "hifi", "high fidelity", "stereo", "mono", "360 sound", "omnidirectional", "driver", "woofer", "tweeter", "acoustics", "portable", "mobile", "travel", "outdoor", "indoor", "home", "party", "gathering", "event", "celebration", "beach", "pool", "poolside", "waterproof", "water resistant", "ip67", "ipx7", "dustproof", "rugged", "durable", "sturdy", "shockproof", "drop proof", "camping", "hiking", "picnic", "barbecue", "bbq", "garden", "patio", "balcony", "bedroom", "living room", "kitchen", "bathroom", "shower", "office", "desk", "workspace", "gym", "workout", "exercise", "running", "cycling", "sports", "fitness", "rechargeable", "battery", "charging", "usb", "usb-c", "power bank", "long battery", "playtime", "hours", "music player", "aux", "auxiliary", "input", "microphone", "hands-free", "calls", "phone calls", "speakerphone", "voice assistant", "alexa", "siri", "google assistant", "smart", "voice control", "compact", "small", "lightweight", "portable", "pocket-size", "handheld", "clip", "carabiner", "strap", "carry", "design", "modern", "sleek", "stylish", "contemporary", "minimalist", "colorful", "black", "white", "gray", "blue", "red", "green", "orange", "pink", "purple", "yellow", "gift", "present", "affordable", "budget", "cheap", "value", "bestseller", "popular", "trending", "must-have", "essential", "everyday", "casual", "fun", "entertainment", "lifestyle", "tech accessory"], image: "https://images.unsplash.com/photo-1608043152269-423dbba4e7e1?w=400", price: 79, description: "Portable wireless speaker" },
-
-  // Clothing & Fashion
-  { id: 9, name: "Denim Jacket", category: "clothing", tags: ["jacket", "jean", "outerwear", "clothing", "denim jacket", "jean jacket", "denim", "jeans", "blue jean", "casual jacket", "fashion", "style", "apparel", "wear", "garment", "coat", "light jacket", "spring jacket", "fall jacket", "casual wear", "streetwear", "street style", "urban", "hip", "trendy", "cool", "classic", "timeless", "vintage", "retro", "americana", "western", "rugged", "casual", "everyday", "versatile", "layering", "layer", "cotton", "fabric", "textile", "durable", "sturdy", "quality", "premium", "designer", "fashion brand", "brand", "blue", "dark blue", "light blue", "black", "white", "gray", "distressed", "washed", "faded", "button", "buttons", "pockets", "collar", "sleeves", "long sleeve", "unisex", "men", "women", "mens fashion", "womens fashion", "youth", "teen", "adult", "size", "fit", "regular fit", "slim fit", "oversized", "boyfriend", "cropped", "trucker jacket", "spring", "fall", "autumn", "season", "seasonal", "transition", "weather", "outdoor", "indoor", "work", "school", "college", "university", "weekend", "date", "night out", "concert", "festival", "music", "rock", "punk", "grunge", "90s", "80s", "throwback", "nostalgia", "outfit", "ootd", "style inspiration", "fashion inspiration", "wardrobe", "closet", "essential", "staple", "must-have", "investment piece", "quality clothing", "longlasting", "gift", "present", "birthday", "christmas", "affordable", "value", "price", "sale", "discount", "popular", "bestseller", "trending", "instagram", "pinterest", "influencer", "celebrity style", "street fashion", "casual chic", "effortless", "comfortable", "comfy", "relaxed", "laid-back"], image: "https://images.unsplash.com/photo-1551028719-00167b16eac5?w=400", price: 89, description: "Classic denim jacket" },
-  { id: 10, name: "Running Shoes", category: "clothing", tags: ["shoe", "sneaker", "footwear", "running shoe", "running shoes", "athletic shoes", "sports shoes", "trainers", "runners", "jogging shoes", "training shoes", "gym shoes", "fitness shoes", "workout shoes", "exercise shoes", "performance shoes", "shoes", "kicks", "footgear", "athletic footwear", "sportswear", "activewear", "athleisure", "running", "jogging", "training", "workout", "exercise", "fitness", "gym", "cardio", "marathon", "track", "cross country", "trail running", "road running", "treadmill", "sprinting", "distance running", "5k", "10k", "half marathon", "sports", "athletics", "active", "performance", "speed", "comfort", "cushioning", "support", "stability", "motion control", "neutral", "arch support", "heel support", "ankle support", "breathable", "ventilation", "mesh", "lightweight", "flexible", "durable", "traction", "grip", "sole", "outsole", "midsole", "insole", "foam", "air", "gel", "boost", "react", "zoom", "technology", "innovation", "advanced", "professional", "beginner", "intermediate", "nike", "adidas", "new balance", "asics", "brooks", "saucony", "hoka", "brand", "quality", "premium", "expensive", "investment", "laces", "shoelaces", "tongue", "collar", "toe box", "black", "white", "gray", "blue", "red", "green", "yellow", "orange", "pink", "purple", "colorful", "vibrant", "neutral colors", "men", "women", "unisex", "mens shoes", "womens shoes", "size", "fit", "true to size", "wide", "narrow", "comfortable", "comfy", "padded", "soft", "responsive", "energy return", "shock absorption", "impact", "protection", "injury prevention", "healthy", "wellness", "lifestyle", "active lifestyle", "health", "runner", "athlete", "everyday", "casual", "street", "fashion", "style", "trendy", "popular", "bestseller", "gift", "present", "essential", "must-have"], image: "https://images.unsplash.com/photo-1542291026-7eec264c27ff?w=400", price: 120, description: "Comfortable running shoes" },
-  { id: 11, name: "Leather Backpack", category: "accessories", tags: ["backpack", "bag", "knapsack", "baggage", "leather backpack", "leather bag", "leather", "genuine leather", "real leather", "full grain", "top grain", "vegan leather", "faux leather", "pu leather", "rucksack", "daypack", "pack", "schoolbag", "bookbag", "travel bag", "laptop backpack", "computer bag", "work bag", "business bag", "professional bag", "carry bag", "shoulder bag", "bags", "luggage", "travel gear", "accessory", "accessories", "fashion accessory", "mens accessories", "womens accessories", "unisex", "storage", "compartment", "pockets", "organization", "organizer", "zipper", "zip", "buckle", "straps", "shoulder straps", "padded straps", "adjustable", "comfortable", "ergonomic", "padded back", "laptop sleeve", "laptop compartment", "tablet pocket", "phone pocket", "water bottle pocket", "side pockets", "front pocket", "main compartment", "capacity", "volume", "liters", "spacious", "roomy", "large", "medium", "small", "compact", "lightweight", "durable", "sturdy", "quality", "premium", "luxury", "expensive", "high-end", "designer", "handmade", "handcrafted", "artisan", "craftsmanship", "classic", "timeless", "vintage", "retro", "modern", "contemporary", "minimalist", "sleek", "stylish", "fashionable", "trendy", "professional", "business", "casual", "smart casual", "brown", "black", "tan", "cognac", "dark brown", "light brown", "caramel", "burgundy", "navy", "work", "office", "school", "college", "university", "student", "travel", "commute", "daily", "everyday", "versatile", "multipurpose", "functional", "practical", "useful", "convenient", "men", "women", "adult", "gift", "present", "birthday", "graduation", "fathers day", "investment", "quality product", "longlasting", "durable goods", "wardrobe essential", "must-have", "popular", "bestseller", "trending"], image: "https://images.unsplash.com/photo-1553062407-98eeb64c6a62?w=400", price: 149, description: "Premium leather backpack" },
-  { id: 12, name: "Sunglasses", category: "accessories", tags: ["sunglass", "glasses", "eyewear", "shades", "sunglasses", "sun glasses", "sunnies", "specs", "spectacles", "eyeglasses", "eye protection", "uv protection", "polarized", "polarized sunglasses", "polarized lenses", "lenses", "tinted lenses", "dark lenses", "mirrored", "reflective", "gradient", "lens", "optical", "vision", "eye care", "eyes", "accessory", "accessories", "fashion accessory", "style", "fashion", "trendy", "cool", "hip", "stylish", "designer", "designer sunglasses", "luxury", "premium", "expensive", "high-end", "brand", "ray-ban", "oakley", "aviator", "wayfarer", "clubmaster", "cat eye", "round", "square", "rectangular", "oversized", "large", "small", "medium", "wrap", "sport", "classic", "vintage", "retro", "modern", "contemporary", "minimalist", "bold", "statement", "frames", "frame", "plastic", "metal", "acetate", "titanium", "stainless steel", "lightweight", "durable", "sturdy", "quality", "nose pads", "temple", "arms", "hinges", "case", "pouch", "cloth", "cleaning cloth", "protective case", "storage", "black", "brown", "tortoise", "tortoiseshell", "clear", "transparent", "blue", "green", "red", "pink", "gold", "silver", "rose gold", "gunmetal", "summer", "sunny", "sun", "beach", "pool", "vacation", "holiday", "travel", "outdoor", "outdoors", "driving", "fishing", "sports", "running", "cycling", "hiking", "skiing", "snowboarding", "water sports", "sailing", "protection", "glare", "brightness", "harmful rays", "uva", "uvb", "uv400", "eye health", "comfort", "comfortable", "fit", "adjustment", "adjustable", "men", "women", "unisex", "mens sunglasses", "womens sunglasses", "adult", "youth", "teen", "gift", "present", "birthday", "fathers day", "mothers day", "essential", "must-have", "summer essential", "wardrobe staple", "popular", "bestseller", "trending", "instagram", "influencer", "celebrity"], image: "https://images.unsplash.com/photo-1572635196237-14b3f281503f?w=400", price: 159, description: "Polarized sunglasses" },
-  { id: 13, name: "Cotton T-Shirt", category: "clothing", tags: ["shirt", "tshirt", "jersey", "garment", "t-shirt", "tee", "top", "cotton shirt", "cotton tee", "cotton", "100% cotton", "organic cotton", "soft cotton", "breathable", "comfortable", "comfy", "clothing", "apparel", "wear", "fashion", "casual", "casual wear", "everyday wear", "basic", "basics", "essential", "wardrobe essential", "staple", "wardrobe staple", "classic", "timeless", "simple", "plain", "solid", "solid color", "crew neck", "round neck", "v-neck", "scoop neck", "short sleeve", "sleeves", "fit", "regular fit", "slim fit", "relaxed fit", "oversized", "fitted", "loose", "size", "small", "medium", "large", "xl", "men", "women", "unisex", "mens fashion", "womens fashion", "gender neutral", "versatile", "multipurpose", "layering", "layer", "undershirt", "base layer", "fabric", "textile", "material", "quality", "premium", "soft", "smooth", "lightweight", "durable", "longlasting", "shrink resistant", "fade resistant", "color", "white", "black", "gray", "grey", "navy", "blue", "red", "green", "yellow", "pink", "purple", "orange", "beige", "tan", "brown", "colorful", "neutral", "spring", "summer", "fall", "autumn", "winter", "all season", "year round", "weather", "warm weather", "cool weather", "casual outfit", "outfit", "ootd", "style", "styling", "fashion inspiration", "wardrobe", "closet", "everyday", "daily", "work", "office", "school", "college", "weekend", "lounge", "home", "sleep", "gym", "workout", "exercise", "activewear", "athleisure", "sports", "running", "training", "affordable", "budget", "cheap", "value", "price", "economical", "sale", "discount", "pack", "multi-pack", "bulk", "gift", "present", "popular", "bestseller", "trending", "classic style", "minimal", "minimalist", "clean", "neat", "professional", "smart casual", "laid-back", "relaxed", "chill", "cool"], image: "https://images.unsplash.com/photo-1521572163474-6864f9cf17ab?w=400", price: 29, description: "Premium cotton t-shirt" },
-  { id: 14, name: "Baseball Cap", category: "accessories", tags: ["cap", "hat", "baseball cap", "headwear", "baseball hat", "ball cap", "sports cap", "dad hat", "snapback", "fitted cap", "adjustable cap", "trucker hat", "mesh cap", "headgear", "head covering", "accessory", "accessories", "fashion accessory", "mens accessories", "womens accessories", "unisex", "casual", "sporty", "athletic", "sports", "baseball", "streetwear", "street style", "urban", "hip hop", "skate", "skateboard", "fashion", "style", "trendy", "cool", "hip", "popular", "classic", "timeless", "everyday", "daily wear", "casual wear", "outdoor", "sun protection", "shade", "visor", "brim", "curved brim", "flat brim", "peak", "crown", "panel", "6 panel", "5 panel", "structured", "unstructured", "closure", "strap", "back strap", "velcro", "buckle", "snap", "snapback closure", "adjustable", "one size", "fit", "comfortable", "comfy", "breathable", "ventilation", "eyelets", "material", "cotton", "polyester", "mesh", "fabric", "embroidery", "embroidered", "logo", "brand", "team", "sports team", "nfl", "mlb", "nba", "college", "university", "plain", "blank", "solid", "color", "black", "white", "navy", "blue", "red", "green", "gray", "khaki", "tan", "beige", "camo", "camouflage", "pattern", "men", "women", "adult", "youth", "teen", "kids", "children", "spring", "summer", "fall", "warm weather", "sunny", "outdoor activities", "casual outfit", "outfit", "ootd", "fashion inspiration", "wardrobe", "essential", "must-have", "versatile", "multipurpose", "protection", "sun hat", "running", "jogging", "gym", "workout", "exercise", "hiking", "fishing", "golf", "tennis", "walking", "travel", "vacation", "beach", "pool", "park", "concert", "festival", "event", "game", "tailgate", "bbq", "picnic", "weekend", "leisure", "relaxed", "laid-back", "chill", "gift", "present", "birthday", "affordable", "budget", "cheap", "value", "bestseller", "trending", "popular item"], image: "https://images.unsplash.com/photo-1588850561407-ed78c282e89b?w=400", price: 25, description: "Adjustable baseball cap" },
-  { id: 15, name: "Winter Coat", category: "clothing", tags: ["coat", "jacket", "overcoat", "outerwear", "winter coat", "winter jacket", "heavy coat", "warm coat", "parka", "puffer", "puffer jacket", "down jacket", "down coat", "insulated jacket", "insulated coat", "padded jacket", "quilted jacket", "peacoat", "trench coat", "wool coat", "fleece", "clothing", "apparel", "garment", "wear", "fashion", "winterwear", "winter clothing", "cold weather", "winter", "fall", "autumn", "seasonal", "season", "snow", "rain", "wind", "weather protection", "waterproof", "water resistant", "windproof", "breathable", "warm", "warmth", "heat", "insulation", "insulated", "thermal", "cozy", "toasty", "protection", "outdoor", "outdoors", "layering", "layer", "outer layer", "hood", "hooded", "detachable hood", "fur trim", "faux fur", "pockets", "zipper", "zip", "buttons", "snap buttons", "closure", "belt", "drawstring", "adjustable", "cuffs", "sleeves", "long sleeve", "lining", "inner lining", "shell", "outer shell", "material", "fabric", "polyester", "nylon", "down", "feather", "synthetic", "wool", "blend", "quality", "premium", "luxury", "expensive", "high-end", "designer", "brand", "durable", "longlasting", "sturdy", "heavyweight", "thick", "chunky", "oversized", "fitted", "slim fit", "regular fit", "length", "long", "mid-length", "short", "knee-length", "thigh-length", "hip-length", "size", "men", "women", "unisex", "mens coat", "womens coat", "adult", "style", "stylish", "fashionable", "trendy", "classic", "timeless", "modern", "contemporary", "casual", "formal", "business", "professional", "smart", "elegant", "sophisticated", "rugged", "sporty", "athletic", "color", "black", "navy", "gray", "brown", "khaki", "olive", "green", "burgundy", "red", "beige", "tan", "white", "charcoal", "commute", "travel", "work", "office", "school", "college", "weekend", "outdoor activities", "hiking", "skiing", "snowboarding", "camping", "essential", "must-have", "winter essential", "wardrobe staple", "investment piece", "gift", "present", "christmas", "holiday", "birthday", "popular", "bestseller", "trending"], image: "https://images.unsplash.com/photo-1539533113208-f6df8cc8b543?w=400", price: 199, description: "Warm winter coat" },
-
-  // Home & Furniture
-  { id: 16, name: "Office Chair", category: "furniture", tags: ["chair", "seat", "office chair", "furniture", "desk chair", "computer chair", "task chair", "executive chair", "ergonomic chair", "swivel chair", "rolling chair", "adjustable chair", "office furniture", "workspace", "home office", "office", "desk", "seating", "sitting", "ergonomic", "ergonomics", "posture", "back support", "lumbar support", "neck support", "armrests", "arms", "padded", "cushioned", "comfortable", "comfort", "adjustable height", "height adjustment", "tilt", "recline", "reclining", "swivel", "360 degree", "wheels", "casters", "rolling", "mobility", "base", "5-star base", "pneumatic", "gas lift", "lever", "controls", "mesh", "mesh back", "breathable", "ventilation", "fabric", "upholstery", "leather", "pu leather", "faux leather", "vinyl", "material", "quality", "durable", "sturdy", "heavy duty", "weight capacity", "professional", "business", "work", "working", "productivity", "modern", "contemporary", "sleek", "stylish", "design", "aesthetic", "minimalist", "black", "white", "gray", "grey", "blue", "red", "brown", "tan", "beige", "assembly", "easy assembly", "tools included", "home", "home office", "office space", "workspace", "study", "den", "bedroom", "gaming", "gaming chair", "computer", "laptop", "remote work", "wfh", "work from home", "student", "desk setup", "office setup", "ergonomic design", "health", "wellness", "comfort", "long hours", "sitting", "computer work", "typing", "writing", "meetings", "zoom", "conference", "executive", "manager", "professional", "corporate", "investment", "quality furniture", "essential", "must-have", "upgrade", "replacement", "gift", "present", "new job", "graduation", "moving", "apartment", "condo", "house", "affordable", "budget", "value", "price", "sale", "discount", "popular", "bestseller", "top rated", "highly rated", "reviews", "recommended"], image: "https://images.unsplash.com/photo-1505843490538-5133c6c7d0e1?w=400", price: 249, description: "Ergonomic office chair" },
-  { id: 17, name: "Coffee Table", category: "furniture", tags: ["table", "coffee table", "furniture", "desk", "center table", "living room table", "cocktail table", "accent table", "side table", "low table", "furniture", "living room furniture", "home furniture", "household", "home", "living room", "lounge", "family room", "den", "apartment", "house", "condo", "flat", "interior", "interior design", "home decor", "decor", "decoration", "furnishing", "modern", "contemporary", "mid-century", "industrial", "rustic", "farmhouse", "scandinavian", "minimalist", "traditional", "classic", "style", "design", "aesthetic", "stylish", "elegant", "chic", "sophisticated", "wood", "wooden", "solid wood", "oak", "walnut", "pine", "acacia", "mango wood", "reclaimed wood", "glass", "glass top", "tempered glass", "metal", "steel", "iron", "marble", "stone", "composite", "mdf", "engineered wood", "material", "construction", "quality", "durable", "sturdy", "stable", "heavy duty", "rectangular", "square", "round", "oval", "shape", "size", "small", "medium", "large", "compact", "spacious", "storage", "shelf", "shelves", "drawer", "drawers", "lower shelf", "bottom shelf", "organization", "organizer", "surface", "top", "tabletop", "display", "showcase", "books", "magazines", "remote", "decor items", "centerpiece", "functional", "practical", "useful", "versatile", "multipurpose", "entertainment", "drinks", "snacks", "coffee", "tea", "legs", "base", "support", "assembly", "easy assembly", "color", "brown", "black", "white", "gray", "natural", "walnut", "oak", "espresso", "cherry", "mahogany", "investment", "quality furniture", "longlasting", "essential", "must-have", "upgrade", "replacement", "gift", "present", "housewarming", "wedding", "moving", "new home", "apartment living", "small space", "affordable", "budget", "value", "sale", "discount", "popular", "bestseller", "trending", "top rated"], image: "https://images.unsplash.com/photo-1533090161767-e6ffed986c88?w=400", price: 299, description: "Modern coffee table" },
-  { id: 18, name: "Table Lamp", category: "home", tags: ["lamp", "light", "table lamp", "lighting", "desk lamp", "bedside lamp", "reading lamp", "task lamp", "accent lamp", "decorative lamp", "night lamp", "nightstand lamp", "light fixture", "illumination", "home lighting", "interior lighting", "ambient lighting", "task lighting", "mood lighting", "home", "bedroom", "living room", "office", "study", "den", "nightstand", "bedside table", "desk", "side table", "end table", "home decor", "decor", "decoration", "furnishing", "accessory", "functional decor", "modern", "contemporary", "traditional", "classic", "vintage", "industrial", "mid-century", "scandinavian", "minimalist", "rustic", "farmhouse", "style", "design", "aesthetic", "elegant", "chic", "stylish", "sophisticated", "base", "lamp base", "shade", "lampshade", "fabric shade", "linen", "metal", "ceramic", "wood", "wooden", "glass", "crystal", "marble", "brass", "bronze", "steel", "material", "finish", "polished", "matte", "brushed", "bulb", "light bulb", "led", "incandescent", "cfl", "e26", "e27", "socket", "wattage", "brightness", "warm light", "cool light", "white light", "yellow light", "dimmable", "dimmer", "switch", "on/off switch", "pull chain", "touch", "touch control", "rotary", "adjustable", "adjustable brightness", "height", "arm", "swing arm", "flexible", "gooseneck", "articulating", "directional", "reading", "work", "working", "studying", "tasks", "crafts", "hobbies", "illumination", "visibility", "practical", "functional", "useful", "convenient", "compact", "small", "space-saving", "portable", "lightweight", "cord", "cable", "power cord", "plug", "outlet", "energy efficient", "eco-friendly", "color", "black", "white", "gray", "silver", "gold", "brass", "bronze", "copper", "beige", "cream", "blue", "green", "pink", "bedroom decor", "office decor", "home improvement", "upgrade", "replacement", "gift", "present", "housewarming", "wedding", "moving", "new home", "apartment", "dorm", "college", "essential", "must-have", "affordable", "budget", "value", "sale", "discount", "popular", "bestseller", "top rated"], image: "https://images.unsplash.com/photo-1507473885765-e6ed057f782c?w=400", price: 59, description: "Adjustable desk lamp" },
-  { id: 19, name: "Sofa Set", category: "furniture", tags: ["sofa", "couch", "furniture", "seat", "sofa set", "sectional", "loveseat", "settee", "divan", "lounge", "living room sofa", "3-seater", "three seater", "seating", "sitting", "furniture", "living room furniture", "home furniture", "household", "upholstered furniture", "home", "living room", "family room", "den", "lounge", "sitting room", "parlor", "apartment", "house", "condo", "interior", "interior design", "home decor", "decor", "furnishing", "modern", "contemporary", "traditional", "classic", "mid-century", "scandinavian", "minimalist", "industrial", "farmhouse", "rustic", "transitional", "style", "design", "aesthetic", "elegant", "chic", "sophisticated", "stylish", "comfortable", "comfort", "comfy", "cozy", "plush", "soft", "cushions", "cushioned", "padded", "pillows", "throw pillows", "seat cushions", "back cushions", "upholstery", "fabric", "linen", "cotton", "velvet", "microfiber", "polyester", "leather", "genuine leather", "faux leather", "pu leather", "suede", "material", "texture", "quality", "durable", "sturdy", "frame", "wooden frame", "wood frame", "hardwood", "plywood", "metal frame", "construction", "solid", "heavy duty", "weight capacity", "springs", "coil springs", "sinuous springs", "support", "foam", "high-density foam", "memory foam", "filling", "arms", "armrests", "legs", "feet", "wooden legs", "metal legs", "tapered legs", "base", "color", "gray", "grey", "charcoal", "beige", "tan", "cream", "white", "black", "brown", "blue", "navy", "green", "emerald", "pink", "burgundy", "wine", "teal", "pattern", "solid", "tufted", "button tufted", "nailhead trim", "size", "large", "spacious", "roomy", "seating capacity", "family", "guests", "entertaining", "gatherings", "parties", "movie night", "tv watching", "relaxing", "lounging", "napping", "reading", "living", "everyday", "focal point", "centerpiece", "statement piece", "assembly", "easy assembly", "tools included", "delivery", "investment", "quality furniture", "longlasting", "essential", "must-have", "upgrade", "replacement", "gift", "present", "housewarming", "wedding", "moving", "new home", "expensive", "luxury", "premium", "high-end", "value", "sale", "discount", "popular", "bestseller", "top rated"], image: "https://images.unsplash.com/photo-1555041469-a586c61ea9bc?w=400", price: 899, description: "3-seater sofa set" },
-  { id: 20, name: "Bed Frame", category: "furniture", tags: ["bed", "furniture", "bedstead", "bedroom", "bed frame", "platform bed", "queen bed", "king bed", "full bed", "twin bed", "bedframe", "bed base", "foundation", "sleeping", "sleep", "rest", "bedroom furniture", "home furniture", "household", "master bedroom", "guest bedroom", "bedroom", "room", "home", "apartment", "house", "condo", "interior", "interior design", "home decor", "decor", "furnishing", "modern", "contemporary", "traditional", "classic", "mid-century", "industrial", "rustic", "farmhouse", "minimalist", "scandinavian", "style", "design", "aesthetic", "elegant", "chic", "sophisticated", "stylish", "wood", "wooden", "solid wood", "hardwood", "oak", "walnut", "pine", "acacia", "cherry", "mahogany", "metal", "steel", "iron", "wrought iron", "upholstered", "fabric", "linen", "velvet", "leather", "faux leather", "material", "construction", "quality", "durable", "sturdy", "stable", "solid", "heavy duty", "weight capacity", "support", "slats", "wood slats", "metal slats", "center support", "legs", "headboard", "footboard", "rails", "side rails", "frame", "structure", "platform", "low profile", "height", "clearance", "under bed storage", "storage", "drawers", "built-in storage", "space-saving", "mattress support", "mattress", "box spring", "foundation", "no box spring needed", "compatible", "size", "queen", "queen size", "king", "king size", "california king", "full", "full size", "twin", "twin size", "dimensions", "measurements", "color", "black", "white", "gray", "brown", "walnut", "oak", "espresso", "natural", "cherry", "beige", "upholstered gray", "navy", "blue", "green", "pink", "assembly", "easy assembly", "tools included", "instructions", "sleeping comfort", "bedroom setup", "bedroom design", "sleeping space", "rest", "relaxation", "comfortable", "comfort", "quality sleep", "good sleep", "peaceful", "cozy", "investment", "quality furniture", "longlasting", "essential", "must-have", "upgrade", "replacement", "moving", "new home", "apartment living", "master suite", "guest room", "kid room", "teen room", "adult", "couple", "single", "gift", "present", "housewarming", "wedding", "expensive", "affordable", "budget", "value", "sale", "discount", "popular", "bestseller", "top rated"], image: "https://images.unsplash.com/photo-1505693416388-ac5ce068fe85?w=400", price: 499, description: "Queen size bed frame" },
-
-  // Sports & Outdoors
-  { id: 21, name: "Mountain Bike", category: "sports", tags: ["bicycle", "bike", "mountain bike", "wheel", "mtb", "cycle", "two-wheeler", "pedal bike", "off-road bike", "trail bike", "mountain biking", "cycling", "biking", "sports", "outdoor sports", "recreation", "exercise", "fitness", "cardio", "workout", "training", "active", "lifestyle", "healthy living", "adventure", "outdoor", "outdoors", "nature", "trails", "mountain trails", "forest", "terrain", "rough terrain", "downhill", "uphill", "cross-country", "xc", "all-mountain", "enduro", "frame", "aluminum frame", "carbon frame", "steel frame", "suspension", "front suspension", "full suspension", "hardtail", "fork", "shock absorber", "gears", "21-speed", "24-speed", "27-speed", "shifting", "derailleur", "chain", "pedals", "handlebars", "flat bars", "brakes", "disc brakes", "hydraulic brakes", "mechanical brakes", "wheels", "tires", "tyres", "knobby tires", "26 inch", "27.5 inch", "29 inch", "rim", "spokes", "seat", "saddle", "comfortable", "adjustable", "helmet", "safety", "protection", "gear", "equipment", "sports equipment", "riding", "rider", "cyclist", "biker", "enthusiast", "beginner", "intermediate", "advanced", "professional", "amateur", "commute", "commuting", "transportation", "travel", "touring", "exploration", "adventure sports", "extreme sports", "adrenaline", "speed", "performance", "durable", "sturdy", "lightweight", "heavy duty", "quality", "reliable", "maintenance", "repair", "upgrade", "black", "red", "blue", "green", "orange", "white", "gray", "color", "men", "women", "unisex", "adult", "youth", "teen", "size", "medium", "large", "gift", "present", "birthday", "christmas", "expensive", "investment", "hobby", "passion", "weekend", "vacation", "trip", "camping", "hiking", "backpacking", "popular", "bestseller", "trending", "must-have", "essential"], image: "https://images.unsplash.com/photo-1576435728678-68d0fbf94e91?w=400", price: 699, description: "21-speed mountain bike" },
-  { id: 22, name: "Tennis Racket", category: "sports", tags: ["racket", "tennis racket", "sports equipment", "tennis", "racquet", "tennis racquet", "sports", "tennis sports", "sport", "game", "tennis game", "match", "competition", "tournament", "playing", "player", "tennis player", "athlete", "athletic", "recreation", "hobby", "exercise", "fitness", "workout", "cardio", "activity", "active", "court", "tennis court", "indoor", "outdoor", "clay court", "hard court", "grass court", "singles", "doubles", "serve", "volley", "forehand", "backhand", "swing", "stroke", "hit", "ball", "tennis ball", "equipment", "gear", "sports gear", "frame", "racket frame", "head", "racket head", "strings", "string tension", "grip", "handle", "overgrip", "graphite", "carbon fiber", "aluminum", "composite", "material", "lightweight", "durable", "sturdy", "quality", "premium", "professional", "pro", "intermediate", "beginner", "advanced", "skill level", "wilson", "head", "babolat", "yonex", "prince", "brand", "power", "control", "spin", "balance", "weight", "length", "size", "standard size", "midsize", "oversize", "sweet spot", "performance", "competitive", "training", "practice", "lesson", "coach", "instructor", "club", "league", "school", "college", "university", "recreational", "casual", "serious", "passionate", "men", "women", "unisex", "junior", "adult", "youth", "teen", "kids", "children", "gift", "present", "birthday", "christmas", "holiday", "investment", "upgrade", "replacement", "new", "popular", "bestseller", "top rated", "highly rated", "recommended", "reviews", "essential", "must-have", "summer", "spring", "season", "outdoor activity", "healthy lifestyle", "wellness", "sport equipment", "athletic equipment"], image: "https://images.unsplash.com/photo-1622279457486-62dcc4a431d6?w=400", price: 89, description: "Professional tennis racket" },
-  { id: 23, name: "Yoga Mat", category: "sports", tags: ["mat", "yoga", "exercise", "fitness", "yoga mat", "exercise mat", "fitness mat", "workout mat", "gym mat", "pilates mat", "stretching mat", "floor mat", "non-slip mat", "sticky mat", "sports", "wellness", "health", "healthy living", "mindfulness", "meditation", "relaxation", "stretching", "flexibility", "balance", "core", "strength", "toning", "body", "mind", "spirit", "practice", "yoga practice", "daily practice", "routine", "workout", "training", "exercise routine", "home workout", "gym", "fitness center", "yoga studio", "studio", "class", "yoga class", "instructor", "teacher", "beginner", "intermediate", "advanced", "all levels", "hatha", "vinyasa", "ashtanga", "bikram", "hot yoga", "power yoga", "yin yoga", "restorative", "flow", "poses", "asanas", "positions", "downward dog", "warrior", "plank", "savasana", "equipment", "gear", "fitness equipment", "yoga gear", "accessories", "yoga accessories", "thickness", "thick", "thin", "6mm", "8mm", "10mm", "cushioned", "padding", "support", "joint support", "comfort", "comfortable", "non-slip", "grip", "traction", "texture", "textured surface", "pvc", "tpe", "rubber", "natural rubber", "cork", "eco-friendly", "biodegradable", "sustainable", "non-toxic", "safe", "material", "quality", "durable", "long-lasting", "easy to clean", "washable", "maintenance", "lightweight", "portable", "carry", "carrying strap", "bag", "yoga bag", "travel", "compact", "roll up", "foldable", "size", "length", "width", "standard size", "extra long", "extra wide", "color", "purple", "blue", "pink", "green", "black", "gray", "red", "orange", "teal", "colorful", "pattern", "design", "aesthetic", "men", "women", "unisex", "adult", "home", "home gym", "apartment", "living room", "bedroom", "office", "outdoors", "park", "beach", "gift", "present", "birthday", "christmas", "new year", "resolution", "affordable", "budget", "cheap", "value", "essential", "must-have", "popular", "bestseller", "trending", "top rated"], image: "https://images.unsplash.com/photo-1601925260368-ae2f83cf8b7f?w=400", price: 35, description: "Non-slip yoga mat" },
-  { id: 24, name: "Basketball", category: "sports", tags: ["basketball", "ball", "sports equipment", "game equipment", "sport", "sports", "game", "playing", "hoops", "bball", "basketball game", "match", "competition", "tournament", "league", "team sport", "team", "player", "basketball player", "athlete", "athletic", "recreation", "hobby", "exercise", "fitness", "workout", "cardio", "training", "practice", "drill", "skill", "shooting", "dribbling", "passing", "defense", "offense", "layup", "dunk", "three-pointer", "free throw", "court", "basketball court", "indoor", "outdoor", "gym", "gymnasium", "park", "playground", "driveway", "street", "streetball", "pickup game", "official", "official size", "size 7", "size 6", "size 5", "regulation", "nba", "ncaa", "fiba", "professional", "college", "high school", "youth", "junior", "kids", "men", "women", "unisex", "leather", "synthetic leather", "composite", "rubber", "material", "texture", "grip", "control", "handling", "bounce", "air retention", "inflation", "pump", "needle", "pressure", "psi", "indoor ball", "outdoor ball", "all-surface", "spalding", "wilson", "nike", "molten", "brand", "quality", "durable", "long-lasting", "wear-resistant", "orange", "brown", "black", "blue", "red", "color", "pattern", "design", "channels", "grooves", "panels", "construction", "beginner", "intermediate", "advanced", "competitive", "casual", "recreational", "serious", "passionate", "fan", "enthusiast", "game day", "season", "spring", "summer", "fall", "winter", "year-round", "school", "college", "university", "club", "organization", "coaching", "coach", "training camp", "camp", "clinic", "family", "friends", "kids", "children", "teens", "adults", "gift", "present", "birthday", "christmas", "holiday", "party", "celebration", "fun", "entertainment", "active lifestyle", "healthy living", "wellness", "sport equipment", "essential", "must-have", "popular", "bestseller", "top rated", "affordable", "value", "price"], image: "https://images.unsplash.com/photo-1546519638-68e109498ffc?w=400", price: 29, description: "Official size basketball" },
-  { id: 25, name: "Camping Tent", category: "outdoors", tags: ["tent", "camping", "shelter", "outdoor equipment", "camping tent", "outdoor tent", "backpacking tent", "family tent", "dome tent", "cabin tent", "tunnel tent", "pop-up tent", "instant tent", "4-person tent", "sleeps 4", "shelter", "protection", "cover", "camping", "camp", "campsite", "campground", "outdoors", "outdoor", "nature", "wilderness", "forest", "woods", "mountains", "lake", "riverside", "beach", "adventure", "exploration", "hiking", "backpacking", "trekking", "trail", "expedition", "trip", "vacation", "holiday", "getaway", "weekend", "overnight", "multi-day", "backcountry", "car camping", "family camping", "group camping", "solo camping", "camping gear", "outdoor gear", "equipment", "camping equipment", "essential", "survival", "weatherproof", "waterproof", "water-resistant", "rainfly", "rain protection", "windproof", "wind-resistant", "weather protection", "all-season", "3-season", "4-season", "summer", "spring", "fall", "winter", "seasonal", "fabric", "material", "polyester", "nylon", "ripstop", "durable", "sturdy", "quality", "reliable", "strong", "tear-resistant", "poles", "tent poles", "aluminum poles", "fiberglass poles", "shock cord", "stakes", "tent stakes", "pegs", "guy lines", "guylines", "ropes", "anchors", "setup", "easy setup", "quick setup", "assembly", "pitching", "portable", "lightweight", "compact", "carry bag", "storage bag", "stuff sack", "backpack", "carrying", "transport", "floor", "tent floor", "groundsheet", "bathtub floor", "footprint", "door", "doors", "entrance", "zipper", "mesh", "screen", "ventilation", "airflow", "breathable", "windows", "mesh windows", "pockets", "interior pockets", "gear loft", "storage", "organization", "space", "spacious", "roomy", "headroom", "vestibule", "porch", "awning", "capacity", "4-person", "family", "friends", "group", "couple", "solo", "size", "dimensions", "height", "length", "width", "color", "green", "blue", "gray", "orange", "red", "camo", "camouflage", "outdoor activity", "recreation", "hobby", "adventure sports", "camping trip", "outdoor living", "gift", "present", "birthday", "christmas", "father's day", "investment", "quality gear", "upgrade", "replacement", "popular", "bestseller", "top rated", "highly rated", "recommended", "must-have"], image: "https://images.unsplash.com/photo-1478131143081-80f7f84ca84d?w=400", price: 199, description: "4-person camping tent" },
-
-  // Kitchen & Dining
-  { id: 26, name: "Coffee Maker", category: "kitchen", tags: ["coffee maker", "coffeemaker", "espresso maker", "appliance", "coffee machine", "brewer", "coffee brewer", "drip coffee maker", "automatic coffee maker", "programmable coffee maker", "kitchen", "kitchen appliance", "small appliance", "countertop appliance", "appliance", "machine", "brewing", "coffee", "espresso", "cappuccino", "latte", "americano", "brew", "brewing coffee", "making coffee", "hot beverage", "drink", "morning", "breakfast", "caffeine", "caffeinated", "wake up", "energy", "home", "kitchen", "countertop", "counter", "workspace", "office", "breakroom", "home brewing", "barista", "cafe", "coffee shop", "quality coffee", "fresh coffee", "hot coffee", "iced coffee", "cold brew", "filter", "paper filter", "reusable filter", "permanent filter", "carafe", "glass carafe", "thermal carafe", "pot", "coffee pot", "capacity", "12-cup", "10-cup", "8-cup", "cups", "servings", "water reservoir", "water tank", "heating element", "hot plate", "warming plate", "keep warm", "temperature", "programmable", "timer", "delay brew", "auto-brew", "automatic shutoff", "safety", "pause and serve", "anti-drip", "controls", "buttons", "display", "lcd", "digital", "settings", "strength", "bold", "regular", "mild", "brew strength", "cleaning", "easy clean", "removable parts", "dishwasher safe", "descaling", "maintenance", "stainless steel", "plastic", "glass", "black", "silver", "white", "color", "modern", "sleek", "compact", "space-saving", "design", "aesthetic", "quality", "durable", "reliable", "consistent", "performance", "brand", "cuisinart", "mr coffee", "keurig", "ninja", "hamilton beach", "gift", "present", "housewarming", "wedding", "birthday", "christmas", "holiday", "new home", "apartment", "college", "dorm", "office gift", "essential", "must-have", "daily use", "everyday", "convenient", "easy to use", "user-friendly", "affordable", "budget", "value", "investment", "upgrade", "replacement", "popular", "bestseller", "top rated", "highly rated", "recommended", "reviews"], image: "https://images.unsplash.com/photo-1517668808822-9ebb02f2a0e6?w=400", price: 129, description: "Automatic coffee maker" },
-  { id: 27, name: "Blender", category: "kitchen", tags: ["blender", "mixer", "kitchen appliance", "food processor", "high-speed blender", "smoothie blender", "countertop blender", "immersion blender", "hand blender", "personal blender", "bullet blender", "kitchen", "kitchen appliance", "small appliance", "appliance", "machine", "blending", "mixing", "pureeing", "crushing", "grinding", "chopping", "processing", "food preparation", "food prep", "cooking", "smoothie", "smoothies", "shake", "shakes", "protein shake", "fruit smoothie", "green smoothie", "juice", "juicing", "puree", "soup", "sauce", "salsa", "dip", "guacamole", "hummus", "pesto", "nut butter", "baby food", "ice", "ice crushing", "frozen fruit", "frozen", "crushed ice", "frappe", "margarita", "cocktail", "drink", "beverage", "healthy", "nutrition", "vitamins", "wellness", "fitness", "diet", "meal prep", "breakfast", "snack", "post-workout", "pre-workout", "power", "wattage", "motor", "powerful motor", "high-speed", "speed", "variable speed", "pulse", "settings", "controls", "blade", "blades", "sharp blades", "stainless steel blades", "cutting", "jar", "pitcher", "container", "cup", "blend cup", "to-go cup", "portable cup", "capacity", "large capacity", "64 oz", "48 oz", "32 oz", "personal size", "single serve", "lid", "spout", "pouring", "base", "motor base", "heavy duty", "quality", "durable", "reliable", "sturdy", "powerful", "performance", "efficient", "quick", "fast", "convenient", "easy to use", "user-friendly", "easy clean", "cleaning", "dishwasher safe", "removable parts", "bpa free", "safe", "non-toxic", "plastic", "glass", "tritan", "stainless steel", "material", "black", "white", "red", "silver", "gray", "color", "modern", "sleek", "compact", "design", "aesthetic", "countertop", "counter space", "kitchen counter", "home", "apartment", "kitchen essentials", "cooking tools", "brand", "ninja", "vitamix", "nutribullet", "cuisinart", "oster", "hamilton beach", "blendtec", "gift", "present", "wedding", "housewarming", "birthday", "christmas", "mother's day", "father's day", "holiday", "new home", "college", "dorm", "healthy living", "lifestyle", "essential", "must-have", "daily use", "everyday", "versatile", "multipurpose", "affordable", "budget", "value", "investment", "upgrade", "replacement", "popular", "bestseller", "top rated", "highly rated", "recommended"], image: "https://images.unsplash.com/photo-1585515320310-259814833e62?w=400", price: 79, description: "High-speed blender" },
-  { id: 28, name: "Dinner Plate Set", category: "dining", tags: ["plate", "dish", "dinnerware", "tableware", "dinner plate", "dinner plate set", "plate set", "dish set", "dinnerware set", "12-piece set", "service for 4", "dining", "dining set", "table setting", "place setting", "tableware", "dishes", "plates", "bowls", "mugs", "cups", "kitchen", "dining room", "table", "dining table", "dinner table", "eating", "dining", "meal", "mealtime", "dinner", "lunch", "breakfast", "food", "serving", "entertaining", "guests", "hosting", "party", "gathering", "family dinner", "holiday meal", "thanksgiving", "christmas", "celebration", "formal", "casual", "everyday", "daily use", "home", "household", "kitchen essentials", "dining essentials", "ceramic", "porcelain", "stoneware", "bone china", "earthenware", "material", "quality", "durable", "chip-resistant", "scratch-resistant", "sturdy", "solid", "heavyweight", "microwave safe", "oven safe", "dishwasher safe", "freezer safe", "safe", "convenient", "easy care", "low maintenance", "cleaning", "modern", "contemporary", "traditional", "classic", "rustic", "farmhouse", "minimalist", "elegant", "chic", "sophisticated", "stylish", "aesthetic", "design", "pattern", "solid color", "white", "black", "gray", "blue", "green", "beige", "cream", "colorful", "neutral", "timeless", "versatile", "round", "square", "shape", "size", "10-inch", "dinner size", "salad plate", "dessert plate", "bowl", "soup bowl", "cereal bowl", "mug", "coffee mug", "tea cup", "set", "complete set", "starter set", "full service", "place settings", "4 place settings", "6 place settings", "8 place settings", "12 pieces", "16 pieces", "family", "couple", "single", "apartment", "condo", "house", "first apartment", "college", "dorm", "new home", "moving", "registry", "wedding registry", "gift", "present", "wedding", "wedding gift", "housewarming", "housewarming gift", "bridal shower", "birthday", "christmas", "holiday", "mother's day", "affordable", "budget", "cheap", "value", "price", "economical", "investment", "quality dinnerware", "upgrade", "replacement", "new", "essential", "must-have", "popular", "bestseller", "top rated", "highly rated", "recommended"], image: "https://images.unsplash.com/photo-1578500494198-246f612d3b3d?w=400", price: 49, description: "12-piece dinner set" },
-  { id: 29, name: "Wine Glass Set", category: "dining", tags: ["glass", "wine glass", "wineglass", "goblet", "wine glass set","Coffee","Mug","Coffee Mug", "stemware", "glassware", "drinkware", "crystal", "crystal glass", "glass set", "set of wine glasses", "red wine glass", "white wine glass", "champagne glass", "champagne flute", "dining", "tableware", "table setting", "barware", "bar", "home bar", "wine", "drinking", "beverages", "alcohol", "alcoholic beverages", "red wine", "white wine", "rose", "champagne", "prosecco", "sparkling wine", "celebration", "toast", "toasting", "cheers", "party", "entertaining", "guests", "hosting", "dinner party", "cocktail party", "gathering", "event", "special occasion", "wedding", "anniversary", "birthday", "new year", "christmas", "thanksgiving", "holiday", "formal", "elegant", "sophisticated", "classy", "luxury", "premium", "fine dining", "upscale", "fancy", "dining room", "kitchen", "home", "restaurant", "quality", "stem", "long stem", "bowl", "rim", "foot", "base", "clear", "transparent", "crystal clear", "sparkling", "brilliant", "shine", "clarity", "lead-free", "lead-free crystal", "safe", "dishwasher safe", "hand wash", "care", "maintenance", "cleaning", "durable", "delicate", "thin", "lightweight", "balanced", "comfortable hold", "elegant design", "classic", "timeless", "modern", "contemporary", "traditional", "universal", "versatile", "multipurpose", "capacity", "volume", "ounces", "oz", "12 oz", "16 oz", "large bowl", "wide bowl", "aerating", "aeration", "breathe", "bouquet", "aroma", "flavor", "taste", "wine tasting", "sommelier", "wine enthusiast", "wine lover", "connoisseur", "collector", "collection", "set", "pair", "2-piece", "4-piece", "6-piece", "8-piece", "gift", "present", "gift set", "wedding gift", "anniversary gift", "housewarming", "hostess gift", "christmas gift", "birthday gift", "valentine's day", "mother's day", "father's day", "romantic", "date night", "couple", "newlyweds", "registry", "wedding registry", "essential", "must-have", "home essentials", "bar essentials", "entertaining essentials", "investment", "quality glassware", "upgrade", "replacement", "new home", "apartment", "condo", "affordable", "budget", "value", "luxury for less", "popular", "bestseller", "top rated", "highly rated", "recommended", "reviews"], image: "https://images.unsplash.com/photo-1510591509098-f4fdc6d0ff04?w=400", price: 39, description: "Crystal wine glasses" },
-  { id: 30, name: "Cooking Pan", category: "kitchen", tags: ["pan", "frying pan", "cookware", "wok", "cooking pan", "skillet", "saute pan", "fry pan", "non-stick pan", "nonstick", "non-stick cookware", "kitchen", "cooking", "kitchenware", "cookware", "pots and pans", "cooking equipment", "cooking tools", "kitchen essentials", "frying", "sauteing", "searing", "browning", "cooking", "preparing", "meal prep", "food preparation", "breakfast", "eggs", "bacon", "pancakes", "omelette", "dinner", "lunch", "stir-fry", "vegetables", "meat", "chicken", "fish", "seafood", "steak", "burgers", "food", "meals", "recipes", "home cooking", "chef", "home chef", "cooking at home", "stovetop", "stove", "cooktop", "gas stove", "electric stove", "induction", "induction compatible", "heat", "heating", "even heating", "heat distribution", "cooking surface", "non-stick", "non-stick coating", "teflon", "ceramic", "coating", "easy release", "no stick", "easy clean", "cleanup", "dishwasher safe", "hand wash", "maintenance", "care", "aluminum", "stainless steel", "cast iron", "hard-anodized", "material", "construction", "quality", "durable", "long-lasting", "sturdy", "solid", "heavy duty", "professional", "commercial grade", "handle", "long handle", "stay-cool handle", "comfortable grip", "riveted", "secure", "safe", "lid", "cover", "glass lid", "see-through", "vented", "size", "8-inch", "10-inch", "12-inch", "small", "medium", "large", "capacity", "depth", "shallow", "deep", "flat", "flat bottom", "round", "shape", "black", "gray", "silver", "red", "blue", "color", "modern", "sleek", "design", "aesthetic", "kitchen decor", "countertop", "versatile", "multipurpose", "all-purpose", "everyday", "daily use", "essential", "must-have", "kitchen staple", "cooking essential", "home", "apartment", "house", "condo", "dorm", "college", "first apartment", "new home", "moving", "brand", "t-fal", "calphalon", "cuisinart", "all-clad", "lodge", "rachael ray", "gift", "present", "wedding", "wedding gift", "housewarming", "housewarming gift", "birthday", "christmas", "mother's day", "father's day", "holiday", "registry", "wedding registry", "affordable", "budget", "value", "price", "economical", "investment", "quality cookware", "upgrade", "replacement", "popular", "bestseller", "top rated", "highly rated", "recommended", "reviews"], image: "https://images.unsplash.com/photo-1556908153-a8d8c6da3f3b?w=400", price: 59, description: "Non-stick cooking pan" },
-
-  // Books & Media
-  { id: 31, name: "Business Book", category: "books", tags: ["book", "reading", "publication", "literature", "business book", "hardcover", "paperback", "non-fiction", "nonfiction", "business", "entrepreneurship", "management", "leadership", "strategy", "marketing", "finance", "economics", "self-help", "personal development", "professional development", "career", "success", "motivation", "inspiration", "bestseller", "best-selling", "popular", "trending", "top rated", "award-winning", "acclaimed", "author", "writer", "expert", "guru", "thought leader", "reading", "read", "reader", "book lover", "bookworm", "literature", "literary", "text", "pages", "chapters", "content", "information", "knowledge", "learning", "education", "educational", "informative", "insightful", "practical", "actionable", "tips", "advice", "guidance", "wisdom", "lessons", "principles", "concepts", "ideas", "theories", "framework", "methodology", "case studies", "examples", "real-world", "applicable", "useful", "valuable", "growth", "improvement", "skills", "competencies", "abilities", "performance", "productivity", "efficiency", "effectiveness", "results", "achievement", "goals", "objectives", "ambition", "mindset", "attitude", "habits", "routine", "discipline", "focus", "determination", "perseverance", "resilience", "confidence", "communication", "negotiation", "decision-making", "problem-solving", "critical thinking", "innovation", "creativity", "entrepreneur", "startup", "small business", "corporate", "executive", "manager", "professional", "employee", "worker", "team", "organization", "company", "workplace", "office", "work", "career advancement", "promotion", "salary", "income", "wealth", "money", "financial", "investment", "side hustle", "passive income", "networking", "relationships", "influence", "impact", "legacy", "gift", "present", "graduation", "promotion gift", "birthday", "christmas", "father's day", "holiday", "college", "university", "mba", "student", "graduate", "young professional", "mid-career", "senior", "beginner", "advanced", "essential", "must-read", "recommended", "reviews", "rating", "affordable", "value", "investment"], image: "https://images.unsplash.com/photo-1544947950-fa07a98d237f?w=400", price: 19, description: "Bestselling business book" },
-  { id: 32, name: "Notebook Set", category: "stationery", tags: ["notebook", "journal", "paper", "stationery", "notebook set", "journal set", "hardcover notebook", "bound notebook", "spiral notebook", "composition notebook", "lined notebook", "blank pages", "ruled pages", "dot grid", "grid paper", "bullet journal", "planner", "diary", "writing", "note-taking", "notes", "jotting", "sketching", "drawing", "doodling", "brainstorming", "ideas", "thoughts", "planning", "organizing", "organization", "productivity", "work", "office", "school", "college", "university", "student", "studying", "homework", "assignments", "class notes", "lecture notes", "meeting notes", "conference", "business", "professional", "executive", "creative", "artist", "writer", "author", "poet", "journaling", "daily journal", "gratitude journal", "travel journal", "personal", "private", "reflection", "meditation", "mindfulness", "goals", "goal setting", "to-do list", "task list", "reminders", "schedule", "calendar", "tracking", "habit tracker", "log", "record", "documentation", "memory", "keepsake", "paper", "quality paper", "thick paper", "smooth paper", "cream paper", "white paper", "pages", "page count", "multiple notebooks", "set of notebooks", "variety", "assorted", "different sizes", "portable", "compact", "pocket-size", "travel-size", "desk", "workspace", "home", "cover", "hardcover", "durable cover", "protective", "binding", "sturdy", "quality", "premium", "elegant", "stylish", "aesthetic", "design", "minimalist", "modern", "classic", "vintage", "color", "black", "brown", "blue", "green", "red", "gray", "tan", "leather", "faux leather", "fabric", "textured", "elastic band", "closure", "ribbon bookmark", "bookmark", "pocket", "inside pocket", "pen holder", "loop", "stationery", "writing supplies", "office supplies", "school supplies", "essential", "must-have", "everyday", "daily use", "gift", "present", "birthday", "graduation", "back to school", "new job", "christmas", "holiday", "stocking stuffer", "affordable", "budget", "value", "pack", "bundle", "set", "collection", "popular", "bestseller", "top rated", "highly rated", "recommended", "reviews"], image: "https://images.unsplash.com/photo-1517842645767-c639042777db?w=400", price: 15, description: "Hardcover notebook set" },
-  { id: 33, name: "Fountain Pen", category: "stationery", tags: ["pen", "ballpoint", "writing implement", "stationery", "fountain pen", "writing pen", "luxury pen", "premium pen", "fine writing instrument", "calligraphy pen", "ink pen", "refillable pen", "writing", "penmanship", "handwriting", "cursive", "script", "calligraphy", "lettering", "signing", "signature", "autograph", "writing instrument", "tool", "stationery", "office supplies", "desk accessories", "executive", "professional", "business", "corporate", "formal", "elegant", "sophisticated", "classy", "luxury", "premium", "high-end", "expensive", "quality", "craftsmanship", "artisan", "handcrafted", "fine", "exquisite", "beautiful", "aesthetic", "design", "classic", "timeless", "vintage", "retro", "modern", "contemporary", "traditional", "nib", "gold nib", "steel nib", "fine nib", "medium nib", "broad nib", "flex nib", "point", "tip", "writing tip", "smooth", "smooth writing", "flow", "ink flow", "consistent", "reliable", "precision", "control", "grip", "comfortable grip", "ergonomic", "balanced", "weight", "substantial", "solid", "body", "barrel", "cap", "clip", "pocket clip", "metal", "brass", "stainless steel", "aluminum", "resin", "acrylic", "ebonite", "wood", "wooden", "material", "finish", "polished", "matte", "brushed", "lacquered", "engraved", "personalized", "custom", "color", "black", "silver", "gold", "blue", "red", "green", "burgundy", "navy", "ink", "fountain pen ink", "bottled ink", "ink cartridge", "refill", "converter", "filling system", "piston", "cartridge converter", "writing experience", "joy of writing", "pleasure", "satisfaction", "collection", "collector", "enthusiast", "hobbyist", "writer", "author", "poet", "artist", "executive", "lawyer", "doctor", "professional", "student", "graduate", "scholar", "academic", "journal", "diary", "correspondence", "letter writing", "notes", "sketching", "drawing", "signing documents", "contracts", "formal documents", "gift", "present", "luxury gift", "executive gift", "graduation gift", "promotion", "retirement", "birthday", "anniversary", "father's day", "christmas", "holiday", "special occasion", "heirloom", "keepsake", "investment", "quality item", "upgrade", "essential", "must-have", "popular", "bestseller", "top rated", "highly rated", "recommended", "reviews"], image: "https://images.unsplash.com/photo-1583485088034-697b5bc54ccd?w=400", price: 45, description: "Premium fountain pen" },
-
-  // Toys & Games
-  { id: 34, name: "Board Game", category: "games", tags: ["game", "board game", "entertainment", "toy", "tabletop game", "family game", "party game", "strategy game", "card game", "dice game", "board", "gaming", "play", "playing", "players", "multiplayer", "2-player", "3-player", "4-player", "group game", "family", "family fun", "family night", "game night", "entertainment", "fun", "enjoyment", "leisure", "recreation", "hobby", "pastime", "activity", "indoor activity", "rainy day", "weekend", "evening", "gathering", "party", "social", "friends", "bonding", "quality time", "together", "interaction", "communication", "teamwork", "cooperation", "competitive", "competition", "challenge", "challenging", "strategic", "strategy", "tactics", "planning", "thinking", "problem-solving", "decision-making", "critical thinking", "skill", "luck", "chance", "dice", "cards", "tokens", "pieces", "board", "game board", "colorful", "illustrated", "artwork", "design", "theme", "themed", "adventure", "fantasy", "mystery", "detective", "trivia", "word game", "educational", "learning", "educational toy", "age appropriate", "kids", "children", "family-friendly", "all ages", "ages 8+", "ages 10+", "teen", "adult", "beginner", "intermediate", "advanced", "easy to learn", "quick", "fast-paced", "long game", "short game", "gameplay", "playtime", "30 minutes", "60 minutes", "90 minutes", "duration", "rounds", "turns", "rules", "instructions", "setup", "components", "quality", "durable", "replayability", "replay value", "variety", "different", "unique", "popular", "classic", "modern", "new", "award-winning", "bestseller", "top-rated", "highly rated", "recommended", "reviews", "box", "packaging", "gift", "present", "birthday", "christmas", "holiday", "hanukkah", "special occasion", "stocking stuffer", "family gift", "kid gift", "teen gift", "adult gift", "home", "living room", "den", "basement", "game room", "collection", "game collection", "library", "shelf", "storage", "travel", "portable", "camping", "cabin", "vacation", "cottage", "indoor entertainment", "screen-free", "no batteries", "unplugged", "analog", "traditional", "nostalgic", "retro", "essential", "must-have", "affordable", "value", "price", "investment"], image: "https://images.unsplash.com/photo-1610890716171-6b1bb98ffd09?w=400", price: 39, description: "Family board game" },
-  { id: 35, name: "Puzzle Set", category: "games", tags: ["puzzle", "jigsaw puzzle", "toy","bookshop", "game", "1000-piece", "1000 piece puzzle", "jigsaw", "puzzle pieces", "interlocking pieces", "entertainment", "activity", "hobby", "pastime", "leisure", "recreation", "fun", "relaxing", "relaxation", "stress relief", "mindfulness", "meditation", "calm", "peaceful", "quiet activity", "solo activity", "alone time", "me time", "focus", "concentration", "attention", "patience", "perseverance", "determination", "challenge", "challenging", "difficult", "brain teaser", "mental exercise", "cognitive", "brain training", "memory", "visual", "spatial", "problem-solving", "hand-eye coordination", "fine motor skills", "dexterity", "therapeutic", "wellness", "mental health", "mindful", "present", "in the moment", "image", "picture", "scene", "landscape", "cityscape", "nature", "animals", "art", "artwork", "painting", "photograph", "colorful", "vibrant", "beautiful", "scenic", "detailed", "intricate", "complex", "realistic", "illustrated", "illustration", "themed", "theme", "subject", "topic", "pieces", "1000 pieces", "large puzzle", "completed size", "dimensions", "big", "substantial", "quality", "thick pieces", "sturdy", "durable", "precision cut", "tight fit", "no dust", "matte finish", "glossy", "cardboard", "recycled", "eco-friendly", "sustainable", "box", "storage box", "reference image", "poster", "guide", "included", "family", "family activity", "group", "together", "teamwork", "cooperation", "kids", "children", "teens", "adults", "seniors", "all ages", "age 12+", "age 14+", "beginner", "intermediate", "advanced", "experienced", "puzzle enthusiast", "puzzler", "collector", "collection", "series", "brand", "quality puzzles", "indoor", "indoor activity", "rainy day", "snow day", "weekend", "evening", "night", "vacation", "holiday", "christmas", "winter", "quarantine", "lockdown", "stay-at-home", "home", "living room", "dining table", "table", "surface", "coffee table", "puzzle mat", "frame", "framing", "display", "wall art", "decor", "decoration", "completed puzzle", "accomplishment", "achievement", "satisfaction", "rewarding", "gift", "present", "birthday", "christmas", "holiday", "mother's day", "father's day", "grandparent", "family gift", "thoughtful", "meaningful", "screen-free", "unplugged", "no batteries", "analog", "traditional", "classic", "timeless", "essential", "must-have", "popular", "bestseller", "top-rated", "highly rated", "recommended", "reviews", "affordable", "value", "price"], image: "https://images.unsplash.com/photo-1587731556938-38755b4803a6?w=400", price: 25, description: "1000-piece puzzle" },
-  { id: 36, name: "Action Figure", category: "toys", tags: ["toy", "figure", "doll", "plaything", "action figure", "collectible", "collectible figure", "figurine", "character", "superhero", "hero", "villain", "movie character", "tv character", "comic book", "comics", "manga", "anime", "gaming", "video game", "franchise", "series", "licensed", "official", "authentic", "toy", "toys", "playset", "play", "playing", "imaginative play", "pretend play", "role play", "storytelling", "adventure", "action", "battle", "combat", "poses", "poseable", "articulated", "articulation", "joints", "moveable", "flexible", "bendable", "accessories", "weapons", "gear", "equipment", "interchangeable", "hands", "heads", "parts", "customizable", "detailed", "highly detailed", "sculpted", "paint", "painted", "hand-painted", "realistic", "accurate", "likeness", "quality", "premium", "high-quality", "craftsmanship", "manufacturing", "plastic", "pvc", "resin", "material", "durable", "sturdy", "solid", "scale", "6-inch", "7-inch", "12-inch", "1/6 scale", "1/12 scale", "size", "height", "dimensions", "packaging", "box", "window box", "display box", "mint condition", "nib", "new in box", "sealed", "unopened", "collector", "collecting", "collection", "display", "shelf", "showcase", "cabinet", "display case", "room decor", "bedroom", "office", "man cave", "den", "gaming room", "geek", "nerd", "fan", "fandom", "enthusiast", "memorabilia", "merchandise", "licensed merchandise", "pop culture", "nostalgia", "nostalgic", "childhood", "retro", "vintage", "classic", "modern", "new", "latest", "exclusive", "limited edition", "rare", "sought-after", "valuable", "investment", "resale", "resale value", "appreciate", "kids", "children", "boys", "girls", "teens", "adults", "collectors", "age 4+", "age 8+", "age 12+", "play value", "fun", "entertainment", "gift", "present", "birthday", "christmas", "holiday", "special occasion", "stocking stuffer", "reward", "prize", "toy store", "comic shop", "online", "popular", "bestseller", "trending", "hot toy", "must-have", "essential", "recommendation", "reviews", "rating", "top-rated", "highly rated", "affordable", "value", "price", "expensive", "luxury", "premium collectible"], image: "https://images.unsplash.com/photo-1606256719585-b8d3dadc2a90?w=400", price: 29, description: "Collectible action figure" },
-
-  // Beauty & Personal Care
-  { id: 37, name: "Hair Dryer", category: "beauty", tags: ["hair dryer", "dryer", "blow dryer", "appliance", "hair appliance", "styling tool", "beauty tool", "professional hair dryer", "salon quality", "ionic", "ceramic", "tourmaline", "blow drying", "drying", "hair care", "hair styling", "styling", "hairstyling", "beauty", "personal care", "grooming", "hair", "wet hair", "damp hair", "long hair", "short hair", "thick hair", "thin hair", "curly hair", "straight hair", "all hair types", "heat", "heating", "hot air", "warm air", "cool air", "cool shot", "temperature", "heat settings", "multiple settings", "adjustable", "speed", "power", "wattage", "1800w", "2000w", "powerful", "strong airflow", "fast drying", "quick dry", "efficient", "time-saving", "convenient", "nozzle", "concentrator", "diffuser", "attachments", "accessories", "ionic technology", "negative ions", "frizz control", "anti-frizz", "smooth", "sleek", "shiny", "glossy", "healthy hair", "hair health", "less damage", "gentle", "protect", "protection", "ceramic coating", "even heat", "heat distribution", "safe", "overheat protection", "safety", "cool touch", "handle", "ergonomic", "comfortable", "grip", "lightweight", "compact", "portable", "travel", "travel-size", "folding", "foldable", "retractable cord", "cord", "long cord", "swivel cord", "hanging loop", "storage", "easy storage", "black", "white", "pink", "purple", "red", "silver", "color", "modern", "sleek", "design", "aesthetic", "stylish", "professional", "salon", "home", "bathroom", "vanity", "bedroom", "hotel", "travel", "gym", "locker room", "morning routine", "daily routine", "getting ready", "blowout", "volume", "body", "bounce", "curls", "waves", "straight", "smooth hair", "salon-quality results", "professional results", "home salon", "diy", "self-care", "beauty routine", "women", "men", "unisex", "teens", "adults", "gift", "present", "birthday", "christmas", "mother's day", "valentine's day", "holiday", "graduation", "new home", "college", "dorm", "essential", "must-have", "everyday", "daily use", "quality", "durable", "reliable", "long-lasting", "investment", "upgrade", "replacement", "brand", "revlon", "conair", "remington", "dyson", "hot tools", "affordable", "budget", "value", "expensive", "luxury", "premium", "popular", "bestseller", "top-rated", "highly rated", "recommended", "reviews"], image: "https://images.unsplash.com/photo-1522338242992-e1a54906a8da?w=400", price: 69, description: "Professional hair dryer" },
-  { id: 38, name: "Perfume Bottle", category: "beauty", tags: ["perfume", "fragrance", "bottle", "cosmetic", "luxury perfume", "designer perfume", "eau de parfum", "edp", "eau de toilette", "edt", "cologne", "scent", "aroma", "smell", "olfactory", "notes", "top notes", "heart notes", "base notes", "floral", "fruity", "woody", "oriental", "fresh", "citrus", "spicy", "musky", "sweet", "powdery", "clean", "sophisticated", "elegant", "sensual", "romantic", "feminine", "masculine", "unisex", "signature scent", "personal fragrance", "beauty", "cosmetics", "luxury", "premium", "high-end", "expensive", "designer", "brand", "fashion house", "chanel", "dior", "gucci", "versace", "ysl", "prada", "tom ford", "jo malone", "creed", "bottle", "glass bottle", "elegant bottle", "beautiful bottle", "decorative", "display", "vanity", "dresser", "bedroom", "bathroom", "collection", "perfume collection", "fragrance collection", "spray", "spritz", "atomizer", "nozzle", "cap", "stopper", "sealed", "liquid", "juice", "formula", "concentration", "long-lasting", "longevity", "sillage", "projection", "subtle", "strong", "intense", "light", "daytime", "evening", "night", "special occasion", "everyday", "casual", "formal", "work", "office", "date", "date night", "romantic", "wedding", "party", "event", "celebration", "season", "spring", "summer", "fall", "winter", "all-season", "weather", "warm weather", "cold weather", "women", "men", "unisex", "ladies", "gentlemen", "adult", "mature", "young", "teen", "age appropriate", "skin", "pulse points", "wrist", "neck", "application", "wearing", "layering", "body lotion", "shower gel", "matching set", "gift set", "personal care", "self-care", "grooming", "hygiene", "confidence", "attractive", "alluring", "seductive", "charming", "pleasant", "memorable", "compliments", "attention", "impression", "identity", "personality", "style", "fashion", "accessory", "finishing touch", "essential", "must-have", "staple", "luxury item", "indulgence", "treat", "splurge", "gift", "present", "birthday", "christmas", "valentine's day", "mother's day", "anniversary", "holiday", "special occasion", "romantic gift", "luxury gift", "thoughtful", "personal", "intimate", "boxed", "wrapped", "packaging", "gift wrap", "ribbon", "elegant packaging", "investment", "quality", "authentic", "genuine", "original", "new", "sealed", "popular", "bestseller", "classic", "iconic", "timeless", "trending", "top-rated", "highly rated", "recommended", "reviews"], image: "https://images.unsplash.com/photo-1541643600914-78b084683601?w=400", price: 89, description: "Luxury perfume" },
-  { id: 39, name: "Makeup Brush Set", category: "beauty", tags: ["brush", "makeup brush", "cosmetic", "beauty tool", "makeup brush set", "brush set", "cosmetic brushes", "beauty brushes", "professional brushes", "makeup tools", "application tools", "makeup", "cosmetics", "beauty", "beauty products", "face", "eyes", "cheeks", "lips", "foundation brush", "powder brush", "blush brush", "contour brush", "highlight brush", "bronzer brush", "eyeshadow brush", "blending brush", "crease brush", "eyeliner brush", "brow brush", "lip brush", "concealer brush", "buffing brush", "stippling brush", "fan brush", "angled brush", "flat brush", "fluffy brush", "dense brush", "tapered", "bristles", "synthetic bristles", "natural bristles", "soft", "gentle", "smooth", "quality", "premium", "professional", "salon quality", "makeup artist", "mua", "beauty professional", "application", "applying", "blending", "buffing", "stippling", "contouring", "highlighting", "shading", "precise", "precision", "control", "flawless", "seamless", "smooth application", "even coverage", "professional results", "salon results", "airbrushed", "polished", "finished look", "makeup routine", "beauty routine", "daily makeup", "full face", "natural look", "glam", "glamorous", "dramatic", "smokey eye", "cut crease", "winged liner", "handle", "long handle", "short handle", "comfortable", "ergonomic", "grip", "balanced", "weighted", "ferrule", "metal ferrule", "durable", "sturdy", "quality construction", "long-lasting", "easy to clean", "wash", "cleaning", "maintenance", "care", "brush cleaner", "soap", "water", "dry", "storage", "brush holder", "organizer", "case", "pouch", "roll", "travel case", "portable", "travel", "on-the-go", "compact", "set", "complete set", "starter set", "essential brushes", "basic brushes", "variety", "assorted", "different sizes", "multiple brushes", "5-piece", "7-piece", "10-piece", "12-piece", "15-piece", "kit", "collection", "black", "white", "pink", "rose gold", "silver", "gold", "purple", "color", "aesthetic", "pretty", "cute", "chic", "elegant", "modern", "stylish", "design", "sleek", "professional looking", "vanity", "makeup table", "dresser", "bathroom", "bedroom", "makeup area", "beauty space", "women", "ladies", "girls", "teens", "adults", "beginner", "intermediate", "advanced", "professional", "enthusiast", "makeup lover", "beauty junkie", "essential", "must-have", "staple", "basics", "investment", "quality tools", "upgrade", "replacement", "gift", "present", "birthday", "christmas", "holiday", "valentine's day", "mother's day", "bridesmaid gift", "graduation", "special occasion", "stocking stuffer", "affordable", "budget", "value", "expensive", "luxury", "premium", "brand", "sigma", "morphe", "real techniques", "ecotools", "popular", "bestseller", "trending", "top-rated", "highly rated", "recommended", "reviews"], image: "https://images.unsplash.com/photo-1512496015851-a90fb38ba796?w=400", price: 35, description: "Professional makeup brushes" },
-
-  // Food & Beverages
-  { id: 40, name: "Coffee Beans", category: "food", tags: ["coffee", "bean", "espresso", "beverage", "coffee beans", "whole bean coffee", "roasted coffee", "premium coffee", "specialty coffee", "gourmet coffee", "arabica", "robusta", "single origin", "blend", "coffee blend", "dark roast", "medium roast", "light roast", "french roast", "italian roast", "espresso roast", "roasting", "roasted", "fresh", "freshly roasted", "fresh coffee", "flavor", "taste", "aroma", "rich", "bold", "smooth", "balanced", "complex", "notes", "tasting notes", "chocolate", "caramel", "nutty", "fruity", "citrus", "floral", "earthy", "smoky", "sweet", "bitter", "acidity", "body", "full-bodied", "medium-bodied", "light-bodied", "brewing", "brew", "making coffee", "coffee maker", "espresso machine", "french press", "pour over", "drip", "cold brew", "hot coffee", "iced coffee", "espresso", "americano", "latte", "cappuccino", "macchiato", "mocha", "caffeine", "caffeinated", "energy", "wake up", "morning", "breakfast", "afternoon", "pick-me-up", "stimulant", "alertness", "focus", "concentration", "productivity", "beverage", "drink", "hot beverage", "coffee shop", "cafe", "barista", "home brewing", "home barista", "coffee enthusiast", "coffee lover", "coffee connoisseur", "aficionado", "beans", "whole beans", "grind", "grinding", "grinder", "coffee grinder", "ground coffee", "coarse grind", "fine grind", "medium grind", "bag", "packaging", "sealed", "resealable", "airtight", "freshness", "storage", "container", "canister", "pantry", "kitchen", "cupboard", "shelf", "weight", "pound", "12 oz", "16 oz", "1 lb", "2 lb", "bulk", "quantity", "origin", "country", "region", "colombia", "ethiopia", "brazil", "guatemala", "kenya", "costa rica", "sumatra", "jamaica", "organic", "fair trade", "sustainable", "ethical", "rainforest alliance", "direct trade", "small batch", "artisan", "craft coffee", "roaster", "local roaster", "coffee roaster", "brand", "quality", "premium", "gourmet", "specialty", "high-quality", "best", "top-rated", "award-winning", "recommended", "popular", "bestseller", "trending", "must-try", "essential", "staple", "everyday", "daily", "routine", "morning routine", "ritual", "gift", "present", "coffee gift", "hostess gift", "housewarming", "birthday", "christmas", "holiday", "father's day", "valentine's day", "coffee subscription", "subscription box", "monthly", "delivery", "online", "shop", "store", "affordable", "value", "price", "expensive", "luxury", "indulgence", "treat", "splurge", "investment", "quality coffee"], image: "https://images.unsplash.com/photo-1559056199-641a0ac8b55e?w=400", price: 15, description: "Premium coffee beans" },
-  { id: 41, name: "Wine Bottle", category: "beverages", tags: ["wine bottle", "bottle", "wine", "alcohol", "red wine", "cabernet", "merlot", "pinot noir", "shiraz", "malbec", "vintage", "year", "aged", "mature", "full-bodied", "medium-bodied", "dry", "semi-dry", "sweet", "semi-sweet", "tannins", "oak", "oaked", "barrel-aged", "flavor", "taste", "notes", "berry", "cherry", "plum", "blackberry", "currant", "spice", "pepper", "vanilla", "chocolate", "tobacco", "leather", "earthy", "complex", "smooth", "rich", "robust", "bold", "elegant", "refined", "balanced", "finish", "long finish", "aroma", "bouquet", "nose", "wine", "vino", "alcoholic beverage", "alcohol", "spirits", "liquor", "beverage", "drink", "drinking", "imbibing", "sipping", "tasting", "wine tasting", "pairing", "food pairing", "dinner", "meal", "steak", "red meat", "beef", "lamb", "pasta", "italian", "cheese", "charcuterie", "celebration", "toast", "toasting", "cheers", "party", "gathering", "dinner party", "entertaining", "hosting", "guests", "special occasion", "anniversary", "birthday", "wedding", "valentine's day", "new year", "christmas", "thanksgiving", "holiday", "romantic", "date", "date night", "couple", "romance", "intimate", "fancy", "upscale", "fine dining", "restaurant", "formal", "casual", "relaxing", "unwind", "wind down", "evening", "night", "nightcap", "before bed", "social", "friends", "family", "gathering", "wine night", "girls night", "guys night", "bottle", "glass bottle", "750ml", "standard bottle", "cork", "corked", "screw cap", "twist off", "seal", "sealed", "label", "wine label", "vineyard", "winery", "estate", "chateau", "region", "appellation", "terroir", "france", "italy", "spain", "california", "napa", "sonoma", "bordeaux", "tuscany", "rioja", "origin", "imported", "domestic", "local", "organic", "biodynamic", "sustainable", "natural wine", "quality", "premium", "luxury", "expensive", "high-end", "affordable", "budget", "value", "good value", "price", "sommelier", "wine expert", "wine enthusiast", "wine lover", "connoisseur", "collector", "wine collection", "cellar", "wine cellar", "storage", "wine rack", "aging", "cellaring", "investment", "decanter", "decanting", "breathing", "aerating", "serving", "temperature", "room temperature", "cool", "chilled", "wine glass", "stemware", "glassware", "pairing glass", "gift", "present", "wine gift", "hostess gift", "housewarming", "birthday", "anniversary", "christmas", "holiday", "father's day", "valentine's day", "romantic gift", "luxury gift", "thoughtful", "classy", "sophisticated", "elegant", "popular", "bestseller", "highly rated", "top-rated", "award-winning", "recommended", "reviews", "rating", "points", "score", "essential", "must-have", "staple"], image: "https://images.unsplash.com/photo-1510812431401-41d2bd2722f3?w=400", price: 49, description: "Red wine vintage" },
-  { id: 42, name: "Tea Set", category: "beverages", tags: ["teapot", "tea", "pot", "tea service", "tea set", "ceramic tea set", "porcelain", "china", "teaware", "tea service set", "teapot", "tea pot", "brewing", "steeping", "infuser", "strainer", "teacups", "tea cups", "saucers", "cup and saucer", "mugs", "tea mugs", "serving", "pouring", "hot water", "boiling water", "tea", "green tea", "black tea", "white tea", "oolong", "herbal tea", "herbal", "chai", "earl grey", "english breakfast", "jasmine", "chamomile", "peppermint", "rooibos", "loose leaf", "tea bags", "tea leaves", "brewing tea", "making tea", "tea time", "afternoon tea", "high tea", "tea party", "ceremony", "tea ceremony", "ritual", "tradition", "traditional", "british", "english", "asian", "chinese", "japanese", "culture", "cultural", "beverage", "drink", "hot beverage", "hot drink", "warm", "soothing", "calming", "relaxing", "comfort", "cozy", "comforting", "morning", "afternoon", "evening", "anytime", "daily", "routine", "habit", "caffeine", "antioxidants", "health", "healthy", "wellness", "benefits", "medicinal", "therapeutic", "digestion", "immune", "relaxation", "stress relief", "mindfulness", "meditation", "peaceful", "tranquil", "serene", "zen", "ceramic", "porcelain", "bone china", "earthenware", "stoneware", "clay", "glazed", "hand-painted", "painted", "decorated", "pattern", "design", "floral", "flowers", "nature", "geometric", "traditional pattern", "modern", "contemporary", "vintage", "antique", "classic", "elegant", "beautiful", "aesthetic", "decorative", "ornamental", "quality", "durable", "chip-resistant", "heat-resistant", "dishwasher safe", "microwave safe", "safe", "convenient", "easy care", "white", "blue", "green", "pink", "red", "gold", "silver", "color", "colorful", "neutral", "set", "complete set", "service", "service for 2", "service for 4", "service for 6", "pieces", "teapot", "cups", "saucers", "sugar bowl", "creamer", "milk jug", "accessories", "tray", "serving tray", "gift set", "boxed", "packaging", "home", "kitchen", "dining room", "living room", "table", "coffee table", "entertaining", "hosting", "guests", "visitors", "family", "friends", "social", "gathering", "party", "bridal shower", "baby shower", "ladies", "women", "grandma", "grandmother", "mom", "mother", "aunt", "gift", "present", "birthday", "christmas", "mother's day", "valentine's day", "anniversary", "wedding", "bridal", "housewarming", "hostess gift", "thank you", "appreciation", "thoughtful", "elegant gift", "luxury", "premium", "special", "essential", "must-have", "staple", "collection", "display", "decor", "decoration", "shelf", "cabinet", "china cabinet", "affordable", "budget", "value", "expensive", "investment", "quality item", "heirloom", "keepsake", "popular", "bestseller", "classic", "timeless", "top-rated", "highly rated", "recommended", "reviews"], image: "https://images.unsplash.com/photo-1564890369478-c89ca6d9cde9?w=400", price: 59, description: "Ceramic tea set" },
-
-  // Automotive
-  { id: 43, name: "Car Vacuum", category: "automotive", tags: ["vacuum", "cleaner", "car", "appliance", "car vacuum", "portable vacuum", "handheld vacuum", "auto vacuum", "vehicle vacuum", "car cleaning", "auto detailing", "detailing", "cleaning", "clean", "automobile", "car care", "vehicle care", "auto care", "maintenance", "interior", "interior cleaning", "upholstery", "seats", "carpet", "floor mats", "dashboard", "console", "trunk", "cargo area", "crevices", "tight spaces", "hard-to-reach", "dirt", "dust", "debris", "crumbs", "pet hair", "hair", "fur", "sand", "leaves", "mess", "spills", "stains", "suction", "strong suction", "powerful", "power", "motor", "wet/dry", "wet and dry", "dry vacuum", "shop vac", "portable", "handheld", "cordless", "corded", "plug-in", "12v", "car adapter", "cigarette lighter", "power outlet", "battery", "rechargeable", "lithium-ion", "runtime", "charge", "charging", "usb", "accessories", "attachments", "nozzles", "crevice tool", "brush", "extension hose", "hose", "flexible", "reach", "versatile", "multipurpose", "compact", "small", "lightweight", "easy to use", "user-friendly", "convenient", "quick", "fast", "efficient", "effective", "powerful cleaning", "deep clean", "thorough", "filter", "hepa filter", "washable filter", "easy empty", "bagless", "dustbin", "container", "capacity", "storage", "space-saving", "car", "truck", "suv", "van", "vehicle", "automobile", "sedan", "coupe", "minivan", "rv", "camper", "boat", "home", "garage", "workshop", "portable cleaning", "on-the-go", "travel", "road trip", "commute", "daily driver", "family car", "kids", "children", "pets", "dog", "cat", "pet owner", "messy", "tidy", "organized", "neat", "pristine", "showroom", "like new", "maintained", "well-kept", "pride", "ownership", "car lover", "auto enthusiast", "detailer", "diy", "self-service", "wash", "car wash", "detail shop", "professional", "salon-quality", "results", "black", "gray", "red", "blue", "color", "modern", "sleek", "design", "quality", "durable", "reliable", "long-lasting", "sturdy", "heavy duty", "commercial grade", "brand", "armor all", "black & decker", "shark", "bissell", "dirt devil", "gift", "present", "birthday", "father's day", "christmas", "holiday", "car gift", "dad gift", "husband", "boyfriend", "car owner", "driver", "essential", "must-have", "practical", "useful", "convenient tool", "car accessory", "automotive accessory", "upgrade", "investment", "affordable", "budget", "value", "price", "economical", "popular", "bestseller", "top-rated", "highly rated", "recommended", "reviews"], image: "https://images.unsplash.com/photo-1563453392212-326f5e854473?w=400", price: 49, description: "Portable car vacuum" },
-  { id: 44, name: "Dashboard Camera", category: "automotive", tags: ["camera", "car", "dashcam", "security", "dashboard camera", "dash cam", "car camera", "driving recorder", "dvr", "video recorder", "automotive camera", "vehicle camera", "recording", "record", "footage", "video", "hd", "full hd", "1080p", "720p", "2k", "4k", "high definition", "resolution", "quality", "clear", "crisp", "sharp", "wide angle", "field of view", "fov", "170 degree", "lens", "camera lens", "front camera", "rear camera", "dual camera", "front and rear", "interior camera", "cabin", "parking mode", "motion detection", "g-sensor", "accelerometer", "collision detection", "accident", "incident", "evidence", "proof", "documentation", "record keeping", "insurance", "insurance claim", "claim", "legal", "protection", "liability", "witness", "documentation", "security", "safety", "peace of mind", "surveillance", "monitoring", "theft", "vandalism", "break-in", "hit and run", "road rage", "aggressive driving", "traffic", "traffic incident", "accident report", "police report", "driving", "driver", "commute", "daily drive", "highway", "road", "street", "parking lot", "garage", "night", "day", "daytime", "nighttime", "night vision", "infrared", "low light", "dark", "weather", "rain", "snow", "fog", "all-weather", "continuous recording", "loop recording", "overwrite", "sd card", "microsd", "memory card", "storage", "capacity", "32gb", "64gb", "128gb", "256gb", "screen", "lcd screen", "display", "monitor", "playback", "review", "footage review", "timestamp", "date stamp", "gps", "location", "speed", "tracking", "data", "mount", "mounting", "suction cup", "adhesive", "windshield", "dashboard", "rearview mirror", "installation", "easy install", "diy", "plug and play", "power", "12v", "car charger", "hardwire", "hardwired", "battery", "supercapacitor", "heat resistant", "cold resistant", "durable", "reliable", "quality", "compact", "discreet", "small", "low profile", "unobtrusive", "black", "gray", "color", "modern", "sleek", "design", "car", "vehicle", "truck", "suv", "sedan", "van", "taxi", "uber", "lyft", "rideshare", "delivery", "fleet", "commercial", "personal", "family car", "teen driver", "new driver", "elderly", "safety device", "essential", "must-have", "important", "protection", "investment", "car accessory", "automotive accessory", "electronics", "tech", "gadget", "technology", "smart", "brand", "viofo", "garmin", "nextbase", "rexing", "apeman", "gift", "present", "birthday", "christmas", "father's day", "holiday", "new car", "car gift", "driver gift", "dad", "husband", "boyfriend", "mom", "wife", "teen", "son", "daughter", "family", "practical gift", "thoughtful", "useful", "affordable", "budget", "value", "expensive", "premium", "high-end", "cheap", "economical", "price", "popular", "bestseller", "top-rated", "highly rated", "recommended", "reviews", "essential car accessory"], image: "https://images.unsplash.com/photo-1519641471654-76ce0107ad1b?w=400", price: 99, description: "HD dashboard camera" },
-
-  // Pet Supplies
-  { id: 45, name: "Dog Collar", category: "pets", tags: ["collar", "dog", "pet", "leash", "dog collar", "pet collar", "adjustable collar", "nylon collar", "leather collar", "buckle collar", "snap collar", "martingale", "training collar", "everyday collar", "walking", "walk", "leash attachment", "d-ring", "metal ring", "clip", "buckle", "fastener", "secure", "safety", "pet safety", "dog", "puppy", "canine", "pooch", "doggo", "pet", "animal", "companion", "fur baby", "furry friend", "four-legged", "small dog", "medium dog", "large dog", "extra large", "puppy", "adult dog", "senior dog", "breed", "all breeds", "size", "sizing", "adjustable", "adjustability", "fit", "fitting", "measurement", "neck size", "circumference", "comfortable", "comfort", "padded", "soft", "gentle", "no chafe", "no rub", "skin-friendly", "breathable", "durable", "strong", "sturdy", "quality", "well-made", "long-lasting", "wear-resistant", "waterproof", "water-resistant", "weather-proof", "outdoor", "indoor", "all-weather", "material", "nylon", "polyester", "leather", "genuine leather", "faux leather", "vegan", "biothane", "webbing", "fabric", "metal", "plastic", "hardware", "color", "black", "red", "blue", "pink", "purple", "green", "orange", "yellow", "brown", "gray", "camo", "camouflage", "pattern", "solid color", "striped", "plaid", "floral", "printed", "reflective", "reflective strip", "visibility", "night", "nighttime", "safety feature", "id tag", "name tag", "identification", "tag", "personalized", "custom", "engraved", "embroidered", "name", "phone number", "contact info", "lost dog", "found", "return", "safety", "training", "obedience", "walking", "leash training", "behavior", "control", "handling", "pet owner", "dog owner", "dog mom", "dog dad", "pet parent", "owner", "handler", "walk", "walks", "daily walk", "exercise", "outdoor activity", "park", "trail", "hiking", "running", "jogging", "adventure", "travel", "road trip", "vacation", "vet", "veterinarian", "groomer", "grooming", "daycare", "boarding", "kennel", "essential", "necessity", "must-have", "basic", "fundamental", "everyday item", "daily use", "practical", "functional", "useful", "important", "pet supplies", "pet accessories", "dog gear", "dog equipment", "pet store", "pet shop", "online", "puppy essentials", "new dog", "new puppy", "adoption", "rescue", "rescue dog", "shelter", "first collar", "replacement", "spare", "backup", "extra", "multiple", "gift", "present", "pet gift", "dog gift", "pet lover", "dog lover", "birthday", "christmas", "holiday", "gotcha day", "adoption day", "new pet", "affordable", "budget", "cheap", "inexpensive", "value", "price", "economical", "quality for price", "investment", "durable goods", "brand", "popular", "bestseller", "top-rated", "highly rated", "recommended", "reviews", "rating", "trusted"], image: "https://images.unsplash.com/photo-1601758228041-f3b2795255f1?w=400", price: 19, description: "Adjustable dog collar" },
-  { id: 46, name: "Cat Toy", category: "pets", tags: ["toy", "cat", "pet", "plaything", "cat toy", "pet toy", "interactive toy", "play", "playing", "playtime", "fun", "entertainment", "enrichment", "stimulation", "mental stimulation", "physical activity", "exercise", "active", "engagement", "cat", "kitten", "feline", "kitty", "pet", "animal", "companion", "fur baby", "furry friend", "indoor cat", "house cat", "playful", "energetic", "curious", "hunting", "prey", "instinct", "natural behavior", "pounce", "chase", "catch", "bat", "swat", "grab", "interactive", "engagement", "bonding", "owner interaction", "play together", "teaser", "wand", "feather", "feather toy", "string", "ribbon", "mouse", "fake mouse", "toy mouse", "ball", "small ball", "bell", "jingle", "sound", "noise", "crinkle", "catnip", "catnip toy", "infused", "filled", "scented", "attract", "attractive", "irresistible", "favorite", "laser", "laser pointer", "red dot", "chasing", "tunnel", "play tunnel", "hiding", "scratching", "scratcher", "scratch post", "material", "fabric", "felt", "plush", "soft", "feathers", "natural", "plastic", "rubber", "sisal", "rope", "wood", "wooden", "safe", "non-toxic", "pet-safe", "durable", "sturdy", "quality", "well-made", "long-lasting", "wear-resistant", "washable", "easy clean", "maintenance", "color", "colorful", "bright", "vibrant", "red", "blue", "green", "yellow", "pink", "purple", "orange", "multicolor", "variety", "assorted", "multiple toys", "set", "toy set", "pack", "bundle", "collection", "different types", "sizes", "small", "medium", "large", "lightweight", "portable", "compact", "storage", "organize", "toy box", "basket", "kitten", "young cat", "adult cat", "senior cat", "all ages", "lazy cat", "active cat", "indoor", "indoor play", "apartment", "home", "living room", "bedroom", "anywhere", "anytime", "daily", "routine", "boredom", "boredom buster", "prevent boredom", "alone time", "home alone", "occupied", "busy", "distraction", "entertainment", "happiness", "joy", "contentment", "health", "healthy", "wellness", "weight management", "obesity prevention", "fitness", "agility", "coordination", "reflexes", "skills", "development", "growth", "behavior", "good behavior", "reduce anxiety", "stress relief", "calming", "satisfying", "fulfilling", "needs", "cat needs", "pet care", "caring", "love", "affection", "spoil", "treat", "gift", "present", "pet owner", "cat owner", "cat mom", "cat dad", "cat lady", "cat person", "pet parent", "pet lover", "cat lover", "feline enthusiast", "new cat", "new kitten", "adoption", "rescue", "birthday", "gotcha day", "christmas", "holiday", "stocking stuffer", "affordable", "budget", "cheap", "inexpensive", "value", "price", "economical", "cost-effective", "essential", "must-have", "basic", "necessity", "pet supplies", "pet accessories", "cat gear", "pet store", "pet shop", "online", "brand", "popular", "bestseller", "top-rated", "highly rated", "favorite", "recommended", "reviews", "rating"], image: "https://images.unsplash.com/photo-1545249390-6bdfa286032f?w=400", price: 12, description: "Interactive cat toy" },
-  { id: 47, name: "Pet Bed", category: "pets", tags: ["bed", "pet", "cushion", "dog bed", "pet bed", "cat bed", "sleeping", "sleep", "rest", "resting", "nap", "napping", "lounging", "relaxing", "comfort", "comfortable", "cozy", "soft", "plush", "cushioned", "padded", "supportive", "support", "orthopedic", "memory foam", "foam", "filling", "stuffing", "pet", "dog", "cat", "puppy", "kitten", "small dog", "medium dog", "large dog", "extra large", "giant breed", "senior dog", "senior pet", "arthritis", "joint support", "hip support", "aches", "pains", "relief", "therapeutic", "health", "wellness", "pet health", "comfort", "restful sleep", "quality sleep", "good sleep", "peaceful", "nest", "den", "safe space", "own space", "territory", "sanctuary", "retreat", "spot", "favorite spot", "sleeping spot", "material", "fabric", "cover", "removable cover", "washable", "machine washable", "easy clean", "cleaning", "maintenance", "care", "hygiene", "sanitary", "fresh", "odor resistant", "stain resistant", "waterproof", "water-resistant", "spill-proof", "accident-proof", "durable", "quality", "well-made", "sturdy", "strong", "long-lasting", "wear-resistant", "scratch-resistant", "chew-resistant", "tough", "heavy duty", "bottom", "non-slip bottom", "anti-slip", "grippy", "stays in place", "secure", "stable", "shape", "round", "oval", "rectangular", "square", "bolster", "bolster bed", "donut", "donut bed", "flat", "mat", "cushion", "pillow", "nest", "cave", "enclosed", "hooded", "raised", "elevated", "size", "small", "medium", "large", "extra large", "xxl", "jumbo", "dimensions", "measurements", "inches", "fit", "sizing", "appropriate size", "color", "brown", "gray", "grey", "beige", "tan", "black", "blue", "red", "pink", "green", "purple", "patterned", "solid color", "neutral", "matches decor", "aesthetic", "stylish", "modern", "contemporary", "classic", "traditional", "elegant", "chic", "home", "house", "apartment", "living room", "bedroom", "family room", "den", "kitchen", "corner", "crate", "kennel", "cage", "indoor", "outdoor", "patio", "deck", "porch", "garage", "pet area", "pet corner", "pet owner", "dog owner", "cat owner", "pet parent", "pet lover", "dog lover", "cat lover", "fur parent", "fur baby", "family member", "companion", "friend", "furry friend", "caring", "love", "affection", "provide", "give", "comfort item", "necessity", "essential", "must-have", "important", "priority", "investment", "quality product", "pet supplies", "pet accessories", "pet furniture", "pet gear", "new pet", "new dog", "new cat", "puppy", "kitten", "adoption", "rescue", "senior pet", "elderly pet", "aging pet", "comfort for seniors", "gift", "present", "pet gift", "birthday", "gotcha day", "christmas", "holiday", "housewarming", "pet owner gift", "thoughtful", "practical", "useful", "appreciated", "affordable", "budget", "value", "price", "economical", "expensive", "luxury", "premium", "high-end", "designer", "brand", "popular", "bestseller", "top-rated", "highly rated", "recommended", "reviews", "rating", "trusted"], image: "https://images.unsplash.com/photo-1577023311546-cdc07a8454d9?w=400", price: 45, description: "Comfortable pet bed" },
-
-  // Garden & Outdoor
-  { id: 48, name: "Garden Tools Set", category: "garden", tags: ["tool", "shovel", "garden", "spade", "garden tools", "gardening tools", "tool set", "garden tool set", "hand tools", "gardening equipment", "outdoor tools", "yard tools", "complete set", "kit", "gardening kit", "essentials", "basics", "shovel", "spade", "trowel", "hand trowel", "fork", "garden fork", "hand fork", "cultivator", "hoe", "rake", "hand rake", "weeder", "weeding tool", "pruner", "pruning shears", "scissors", "garden scissors", "snips", "clippers", "gloves", "garden gloves", "kneeling pad", "kneeler", "gardening", "garden", "yard", "yard work", "landscaping", "outdoor", "outdoors", "digging", "planting", "weeding", "cultivating", "tilling", "raking", "pruning", "trimming", "cutting", "harvesting", "maintenance", "upkeep", "care", "lawn care", "plant care", "soil", "dirt", "earth", "ground", "beds", "garden beds", "flower beds", "raised beds", "vegetable garden", "herb garden", "flower garden", "garden plot", "lawn", "grass", "plants", "flowers", "vegetables", "veggies", "herbs", "shrubs", "bushes", "trees", "seeds", "seedlings", "bulbs", "roots", "transplanting", "repotting", "container gardening", "pots", "planters", "outdoor living", "backyard", "front yard", "side yard", "patio", "deck", "balcony", "terrace", "rooftop", "urban garden", "suburban", "rural", "farm", "homestead", "hobby", "pastime", "recreation", "leisure", "activity", "outdoor activity", "exercise", "physical activity", "fresh air", "nature", "natural", "eco-friendly", "sustainable", "organic", "organic gardening", "green thumb", "gardener", "gardening enthusiast", "plant lover", "plant parent", "horticulture", "hobby gardener", "beginner", "novice", "experienced", "expert", "professional", "landscaper", "material", "metal", "steel", "stainless steel", "carbon steel", "aluminum", "wood", "wooden", "handle", "long handle", "short handle", "grip", "comfortable", "ergonomic", "rubber grip", "cushioned", "quality", "durable", "sturdy", "strong", "heavy duty", "rust-resistant", "rust-proof", "weatherproof", "weather-resistant", "outdoor use", "long-lasting", "reliable", "sharp", "sharp blade", "pointed", "serrated", "effective", "efficient", "functional", "practical", "useful", "versatile", "multipurpose", "all-purpose", "complete", "comprehensive", "everything you need", "starter set", "beginner set", "storage", "bag", "tote", "carrying bag", "tool bag", "organizer", "caddy", "bucket", "basket", "storage shed", "garage", "organization", "organized", "portable", "easy to carry", "transport", "set", "multiple tools", "variety", "assorted", "pieces", "5-piece", "7-piece", "10-piece", "bundle", "collection", "color", "green", "black", "red", "orange", "yellow", "blue", "bright", "colorful", "easy to spot", "easy to find", "season", "spring", "summer", "fall", "autumn", "planting season", "growing season", "harvest", "year-round", "all season", "gift", "present", "mother's day", "father's day", "birthday", "christmas", "holiday", "housewarming", "gardener gift", "mom", "dad", "grandma", "grandpa", "homeowner", "new home", "new house", "moving", "essential", "must-have", "necessity", "basics", "starter", "beginner essentials", "upgrade", "replacement", "invest", "investment", "quality tools", "affordable", "budget", "value", "price", "economical", "cheap", "inexpensive", "expensive", "premium", "professional grade", "brand", "fiskars", "corona", "gardena", "popular", "bestseller", "top-rated", "highly rated", "recommended", "reviews", "rating"], image: "https://images.unsplash.com/photo-1416879595882-3373a0480b5b?w=400", price: 69, description: "Complete garden tool set" },
-  { id: 49, name: "Plant Pot", category: "garden", tags: ["pot", "flowerpot", "planter", "vase", "plant pot", "flower pot", "ceramic pot", "clay pot", "terracotta", "planter pot", "container", "vessel", "gardening", "garden", "indoor gardening", "outdoor gardening", "plants", "potted plants", "houseplants", "house plants", "indoor plants", "outdoor plants", "flowers", "flowering plants", "succulents", "cacti", "cactus", "herbs", "vegetables", "small trees", "shrubs", "ferns", "foliage", "greenery", "green", "living plants", "potting", "repotting", "transplanting", "planting", "growing", "cultivation", "container gardening", "urban gardening", "home", "house", "apartment", "condo", "balcony", "patio", "deck", "terrace", "rooftop", "windowsill", "window", "indoor", "outdoor", "garden", "yard", "backyard", "front porch", "entryway", "entrance", "doorstep", "living room", "bedroom", "kitchen", "bathroom", "office", "workspace", "desk", "shelf", "table", "counter", "floor", "corner", "decor", "decoration", "home decor", "interior design", "styling", "aesthetic", "beautiful", "pretty", "attractive", "decorative", "ornamental", "accent", "focal point", "centerpiece", "display", "showcase", "ceramic", "clay", "terracotta", "terra cotta", "earthenware", "stoneware", "porcelain", "plastic", "resin", "fiberglass", "metal", "concrete", "cement", "wood", "wooden", "bamboo", "wicker", "rattan", "material", "handmade", "handcrafted", "artisan", "quality", "durable", "sturdy", "solid", "heavy", "lightweight", "drain", "drainage", "drainage hole", "drainage holes", "saucer", "drip tray", "catch tray", "water tray", "base", "bottom", "watering", "water", "moisture", "soil", "potting soil", "potting mix", "growing medium", "size", "small", "medium", "large", "extra large", "mini", "tiny", "big", "diameter", "height", "depth", "capacity", "volume", "inches", "centimeters", "shape", "round", "circular", "square", "rectangular", "oval", "cylindrical", "geometric", "modern", "contemporary", "traditional", "classic", "vintage", "rustic", "farmhouse", "minimalist", "scandinavian", "boho", "bohemian", "eclectic", "style", "design", "pattern", "textured", "smooth", "glossy", "matte", "glazed", "unglazed", "natural", "painted", "color", "terracotta", "brown", "white", "black", "gray", "grey", "beige", "cream", "blue", "green", "pink", "red", "yellow", "orange", "multicolor", "colorful", "neutral", "natural color", "plain", "solid", "patterned", "striped", "botanical", "floral", "plant lover", "plant parent", "plant mom", "plant dad", "green thumb", "gardener", "indoor gardener", "urban jungle", "plant collection", "plant collector", "enthusiast", "hobbyist", "beginner", "experienced", "care", "plant care", "maintenance", "growth", "healthy plants", "thriving", "flourishing", "air purifying", "air quality", "oxygen", "fresh air", "wellness", "health", "calming", "relaxing", "nature", "natural", "biophilic", "connection to nature", "essential", "must-have", "necessity", "basics", "gardening essential", "planting essential", "upgrade", "replacement", "new pot", "gift", "present", "housewarming", "housewarming gift", "birthday", "mother's day", "christmas", "holiday", "thank you", "hostess gift", "plant gift", "accompaniment", "plant lover gift", "gardener gift", "home gift", "thoughtful", "practical", "useful", "beautiful gift", "decorative gift", "affordable", "budget", "cheap", "inexpensive", "value", "price", "economical", "expensive", "luxury", "premium", "high-end", "designer", "artisan pot", "handmade pot", "unique", "one-of-a-kind", "special", "quality", "investment", "brand", "popular", "bestseller", "trending", "top-rated", "highly rated", "recommended", "reviews", "rating"], image: "https://images.unsplash.com/photo-1485955900006-10f4d324d411?w=400", price: 25, description: "Ceramic plant pot" },
-  { id: 50, name: "Watering Can", category: "garden", tags: ["watering can", "can", "watering pot", "garden tool", "watering", "water can", "sprinkling can", "garden can", "plant watering", "gardening", "garden", "watering plants", "hydration", "hydrating", "irrigation", "water", "watering tool", "gardening tool", "outdoor tool", "yard tool", "essential", "necessity", "basic", "plants", "flowers", "garden plants", "houseplants", "indoor plants", "outdoor plants", "potted plants", "container plants", "hanging baskets", "planters", "flower beds", "garden beds", "vegetable garden", "herb garden", "lawn", "grass", "shrubs", "trees", "seedlings", "seeds", "sprouts", "growth", "growing", "cultivation", "care", "plant care", "maintenance", "routine", "daily routine", "watering routine", "gardening routine", "hobby", "pastime", "activity", "outdoor activity", "gardener", "home gardener", "plant lover", "plant parent", "green thumb", "horticulture", "hobby gardener", "beginner", "experienced", "expert", "professional", "landscaper", "metal", "galvanized metal", "galvanized steel", "steel", "stainless steel", "zinc", "tin", "copper", "brass", "aluminum", "plastic", "resin", "ceramic", "material", "construction", "durable", "sturdy", "strong", "quality", "well-made", "long-lasting", "rust-resistant", "rust-proof", "weatherproof", "weather-resistant", "outdoor use", "indoor use", "all-weather", "capacity", "volume", "liters", "gallons", "quarts", "size", "1 liter", "2 liter", "1 gallon", "2 gallon", "small", "medium", "large", "compact", "substantial", "spout", "long spout", "narrow spout", "rose", "sprinkler head", "shower head", "gentle spray", "soft spray", "rain-like", "gentle watering", "seedlings safe", "delicate plants", "precise", "control", "flow control", "even distribution", "reach", "extended reach", "handle", "top handle", "side handle", "comfortable", "ergonomic", "grip", "easy to hold", "easy to carry", "carry", "portable", "lightweight", "heavy", "substantial", "balanced", "stable", "design", "functional", "practical", "useful", "efficient", "effective", "vintage", "classic", "traditional", "rustic", "farmhouse", "country", "cottage", "english garden", "french", "european", "modern", "contemporary", "minimalist", "sleek", "aesthetic", "beautiful", "decorative", "ornamental", "charming", "quaint", "stylish", "elegant", "color", "metal", "silver", "galvanized", "gray", "grey", "green", "sage green", "olive", "black", "white", "cream", "red", "blue", "copper", "bronze", "gold", "natural", "painted", "powder-coated", "finish", "matte", "glossy", "distressed", "aged", "patina", "indoor", "outdoor", "garden", "yard", "backyard", "front yard", "patio", "deck", "balcony", "terrace", "rooftop", "greenhouse", "shed", "potting shed", "home", "house", "apartment", "condo", "kitchen", "sink", "storage", "hang", "hanging", "hook", "wall hook", "shed", "garage", "storage shed", "organize", "organized", "display", "decor", "garden decor", "yard decor", "functional decor", "gift", "present", "mother's day", "father's day", "birthday", "christmas", "holiday", "housewarming", "gardener gift", "plant lover gift", "mom", "dad", "grandma", "grandpa", "homeowner", "new home", "new house", "moving", "garden gift", "outdoor gift", "thoughtful", "practical gift", "useful gift", "beautiful gift", "vintage style", "essential", "must-have", "gardening essential", "basics", "starter", "beginner tool", "upgrade", "replacement", "new", "additional", "extra", "investment", "quality tool", "affordable", "budget", "value", "price", "economical", "cheap", "inexpensive", "expensive", "luxury", "premium", "high-end", "decorative piece", "functional art", "brand", "popular", "bestseller", "classic item", "timeless", "top-rated", "highly rated", "recommended", "reviews", "rating", "trusted"], image: "https://images.unsplash.com/photo-1523348837708-15d4a09cfac2?w=400", price: 18, description: "Metal watering can" },
-];
+// Generated from the merchandising feed by `npm run catalog:import`.
+// Edit the feed and re-import instead of changing catalog.json by hand.
+export const products: Product[] = catalog;
@@ -0,0 +1,67 @@
+/**
+ * A tiny table-driven check runner for the scripts under /scripts.
+ * Each case states only the fields it is about: objects in `expected` are
+ * compared as subsets of the actual value, arrays element by element.
+ */
+
+export interface Check {
+  name: string;
+  run: () => unknown;
+  expected: unknown;
+}
+
+/**
+ * Whether `actual` has every field of `expected` with the same value.
+ * Arrays must have the same length.
+ */
+export function matchesExpected(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, i) => matchesExpected(actual[i], item))
+    );
+  }
+  if (typeof expected === "object" && expected !== null) {
+    if (typeof actual !== "object" || actual === null) {
+      return false;
+    }
+    const record = actual as Record<string, unknown>;
+    return Object.entries(expected).every(([key, value]) =>
+      value === undefined
+        ? record[key] === undefined
+        : matchesExpected(record[key], value)
+    );
+  }
+  return Object.is(actual, expected);
+}
+
+/**
+ * Run every check, print one line per case and the actual value of each
+ * failure, and return the number of failures
+ */
+export function runChecks(title: string, checks: Check[]): number {
+  console.log(`${title}: ${checks.length} checks\n`);
+
+  let failures = 0;
+  checks.forEach(({ name, run, expected }) => {
+    let actual: unknown;
+    try {
+      actual = run();
+    } catch (error) {
+      actual = { threw: (error as Error).message };
+    }
+
+    if (matchesExpected(actual, expected)) {
+      console.log(`ok    ${name}`);
+      return;
+    }
+    failures++;
+    console.log(`FAIL  ${name}`);
+    console.log(`      expected ${JSON.stringify(expected)}`);
+    console.log(`      actual   ${JSON.stringify(actual)}`);
+  });
+
+  console.log(`\n${checks.length - failures} passed, ${failures} failed`);
+  return failures;
+}
@@ -0,0 +1,111 @@
+/**
+ * Ranking metrics over binary relevance judgements.
+ * `ranked` is the result list in rank order, `relevant` the expected ids.
+ */
+
+export interface RankingMetrics {
+  precisionAtK: number;
+  recallAtK: number;
+  mrr: number;
+  ndcgAtK: number;
+}
+
+/**
+ * Fraction of the top k results that are relevant
+ */
+export function precisionAtK(
+  ranked: number[],
+  relevant: Set<number>,
+  k: number
+): number {
+  if (k <= 0) {
+    return 0;
+  }
+  const hits = ranked.slice(0, k).filter((id) => relevant.has(id)).length;
+  return hits / k;
+}
+
+/**
+ * Fraction of the relevant items found in the top k results
+ */
+export function recallAtK(
+  ranked: number[],
+  relevant: Set<number>,
+  k: number
+): number {
+  if (relevant.size === 0) {
+    return 0;
+  }
+  const hits = ranked.slice(0, k).filter((id) => relevant.has(id)).length;
+  return hits / relevant.size;
+}
+
+/**
+ * 1 / position of the first relevant result, or 0 if none is returned
+ */
+export function reciprocalRank(
+  ranked: number[],
+  relevant: Set<number>
+): number {
+  const position = ranked.findIndex((id) => relevant.has(id));
+  return position === -1 ? 0 : 1 / (position + 1);
+}
+
+/**
+ * Normalized discounted cumulative gain over the top k results
+ */
+export function ndcgAtK(
+  ranked: number[],
+  relevant: Set<number>,
+  k: number
+): number {
+  const discount = (position: number) => 1 / Math.log2(position + 2);
+
+  const dcg = ranked
+    .slice(0, k)
+    .reduce(
+      (sum, id, position) => sum + (relevant.has(id) ? discount(position) : 0),
+      0
+    );
+
+  let idealDcg = 0;
+  for (let position = 0; position < Math.min(k, relevant.size); position++) {
+    idealDcg += discount(position);
+  }
+
+  return idealDcg === 0 ? 0 : dcg / idealDcg;
+}
+
+/**
+ * Compute every metric for one ranked list
+ */
+export function evaluateRanking(
+  ranked: number[],
+  relevantIds: number[],
+  k: number
+): RankingMetrics {
+  const relevant = new Set(relevantIds);
+  return {
+    precisionAtK: precisionAtK(ranked, relevant, k),
+    recallAtK: recallAtK(ranked, relevant, k),
+    mrr: reciprocalRank(ranked, relevant),
+    ndcgAtK: ndcgAtK(ranked, relevant, k),
+  };
+}
+
+/**
+ * Average metrics across queries
+ */
+export function meanMetrics(results: RankingMetrics[]): RankingMetrics {
+  const mean = (pick: (m: RankingMetrics) => number) =>
+    results.length === 0
+      ? 0
+      : results.reduce((sum, m) => sum + pick(m), 0) / results.length;
+
+  return {
+    precisionAtK: mean((m) => m.precisionAtK),
+    recallAtK: mean((m) => m.recallAtK),
+    mrr: mean((m) => m.mrr),
+    ndcgAtK: mean((m) => m.ndcgAtK),
+  };
+}
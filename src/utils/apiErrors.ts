@@ -0,0 +1,66 @@
+/**
+ * Error codes returned by the JSON API, each with a fixed HTTP status
+ */
+export type ApiErrorCode =
+  | "invalid_json"
+  | "validation_failed"
+  | "payload_too_large"
+  | "model_unavailable"
+  | "internal_error";
+
+const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  invalid_json: 400,
+  validation_failed: 422,
+  payload_too_large: 413,
+  model_unavailable: 503,
+  internal_error: 500,
+};
+
+/**
+ * A problem with one request field. `field` is a dotted path into the body
+ * or the query parameter name, e.g. "predictions.2.probability".
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Body of every error response
+ */
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    /** Every invalid field, for "validation_failed" */
+    details?: FieldError[];
+  };
+}
+
+/**
+ * JSON error response with the status that goes with `code`
+ */
+export function apiError(
+  code: ApiErrorCode,
+  message: string,
+  details?: FieldError[]
+): Response {
+  const body: ApiErrorBody = { error: { code, message, details } };
+  return Response.json(body, { status: API_ERROR_STATUS[code] });
+}
+
+/**
+ * Run a route handler, turning anything it throws into an "internal_error"
+ * response instead of an HTML error page
+ */
+export async function withApiErrors(
+  route: string,
+  handler: () => Promise<Response> | Response
+): Promise<Response> {
+  try {
+    return await handler();
+  } catch (error) {
+    console.error(`[API] ${route} failed:`, error);
+    return apiError("internal_error", "Something went wrong on our side");
+  }
+}
@@ -0,0 +1,112 @@
+import { Product } from "@/data/products";
+import { Prediction } from "./imageClassifier";
+import { normalizeTags } from "./catalogImporter";
+
+/**
+ * A tag suggested for a product from the classifier's view of its image
+ */
+export interface TagProposal {
+  tag: string;
+  /** Probability of the prediction the tag came from */
+  confidence: number;
+  /** Full class name of that prediction */
+  sourceLabel: string;
+  /** False when the product already carries this tag */
+  isNew: boolean;
+}
+
+export interface AutoTagResult {
+  product: Product;
+  predictions: Prediction[];
+  proposals: TagProposal[];
+  error?: string;
+}
+
+export const DEFAULT_MIN_TAG_CONFIDENCE = 0.05;
+
+/**
+ * Turn predictions into tag proposals. Each comma-separated synonym in a
+ * class name ("cellular telephone, cellular phone") becomes its own tag;
+ * a tag suggested by several predictions keeps the highest confidence.
+ */
+export function proposeTags(
+  product: Product,
+  predictions: Prediction[],
+  minConfidence: number = DEFAULT_MIN_TAG_CONFIDENCE
+): TagProposal[] {
+  const existing = new Set(normalizeTags(product.tags));
+  const proposals = new Map<string, TagProposal>();
+
+  predictions
+    .filter((pred) => pred.probability >= minConfidence)
+    .forEach((pred) => {
+      normalizeTags(pred.className.split(",")).forEach((tag) => {
+        const current = proposals.get(tag);
+        if (!current || current.confidence < pred.probability) {
+          proposals.set(tag, {
+            tag,
+            confidence: pred.probability,
+            sourceLabel: pred.className,
+            isNew: !existing.has(tag),
+          });
+        }
+      });
+    });
+
+  return [...proposals.values()].sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Classify every product image in turn and propose tags for it.
+ * Failures are recorded per product so one broken image doesn't stop the run.
+ */
+export async function runAutoTagging(
+  allProducts: Product[],
+  classify: (product: Product) => Promise<Prediction[]>,
+  onResult: (result: AutoTagResult, done: number, total: number) => void,
+  minConfidence: number = DEFAULT_MIN_TAG_CONFIDENCE
+): Promise<AutoTagResult[]> {
+  const results: AutoTagResult[] = [];
+
+  for (const product of allProducts) {
+    let result: AutoTagResult;
+    try {
+      const predictions = await classify(product);
+      result = {
+        product,
+        predictions,
+        proposals: proposeTags(product, predictions, minConfidence),
+      };
+    } catch (error) {
+      console.error("[AutoTagger] Failed to tag product", product.id, error);
+      result = {
+        product,
+        predictions: [],
+        proposals: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    results.push(result);
+    onResult(result, results.length, allProducts.length);
+  }
+
+  return results;
+}
+
+/**
+ * Add accepted tags (by product id) to the catalog, keeping tags normalized
+ * and de-duplicated. Products without accepted tags are returned unchanged.
+ */
+export function applyAcceptedTags(
+  allProducts: Product[],
+  acceptedTags: Record<number, string[]>
+): Product[] {
+  return allProducts.map((product) => {
+    const accepted = acceptedTags[product.id];
+    if (!accepted || accepted.length === 0) {
+      return product;
+    }
+    return { ...product, tags: normalizeTags([...product.tags, ...accepted]) };
+  });
+}
@@ -0,0 +1,303 @@
+import { Product } from "@/data/products";
+import { getUnknownAliasCategories } from "./labelExpansion";
+
+export type CatalogFormat = "csv" | "json";
+
+/**
+ * A problem with one row of the feed. `row` is 1-based and counts data rows
+ * only (the CSV header is not row 1).
+ */
+export interface RowError {
+  row: number;
+  field?: keyof Product;
+  message: string;
+}
+
+export interface CatalogImportResult {
+  /** Rows that passed validation, normalized */
+  products: Product[];
+  errors: RowError[];
+  /** Number of duplicate tags removed across all rows */
+  duplicateTagsRemoved: number;
+  /** Label taxonomy alias categories no imported product is in */
+  unknownAliasCategories: string[];
+}
+
+type RawRow = Record<string, unknown>;
+
+const REQUIRED_FIELDS: (keyof Product)[] = [
+  "id",
+  "name",
+  "category",
+  "image",
+  "price",
+];
+
+// Tags in CSV cells are separated by | or ;
+const CSV_TAG_SEPARATOR = /[|;]/;
+
+/**
+ * Parse CSV text into objects keyed by the header row.
+ * Supports quoted fields, escaped quotes ("") and CRLF line endings.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmptyRows = rows.filter((r) => r.some((cell) => cell.trim()));
+  if (nonEmptyRows.length === 0) {
+    return [];
+  }
+
+  const header = nonEmptyRows[0].map((cell) => cell.trim());
+  return nonEmptyRows
+    .slice(1)
+    .map((cells) =>
+      Object.fromEntries(header.map((key, i) => [key, cells[i] ?? ""]))
+    );
+}
+
+/**
+ * Trim, lowercase and collapse whitespace in tags, dropping empty and
+ * duplicate entries while keeping the first occurrence's position
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, " "))
+    .filter(Boolean);
+  return [...new Set(normalized)];
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+function readTags(value: unknown): string[] | null {
+  if (Array.isArray(value)) {
+    return value.every((tag) => typeof tag === "string") ? value : null;
+  }
+  if (typeof value === "string") {
+    return value.split(CSV_TAG_SEPARATOR);
+  }
+  return value == null ? [] : null;
+}
+
+function readNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function readString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+// Empty CSV cells count as missing, not as invalid values
+function isPresent(value: unknown): boolean {
+  return value != null && String(value).trim() !== "";
+}
+
+/**
+ * Validate and normalize one raw row, collecting every problem it has
+ */
+function validateRow(
+  raw: RawRow,
+  row: number
+): { product: Product | null; errors: RowError[]; duplicateTags: number } {
+  const errors: RowError[] = [];
+
+  REQUIRED_FIELDS.forEach((field) => {
+    if (!isPresent(raw[field])) {
+      errors.push({ row, field, message: `Missing required field "${field}"` });
+    }
+  });
+
+  const id = readNumber(raw.id);
+  if (isPresent(raw.id) && (id === null || !Number.isInteger(id) || id <= 0)) {
+    errors.push({ row, field: "id", message: "id must be a positive integer" });
+  }
+
+  const price = readNumber(raw.price);
+  if (isPresent(raw.price) && (price === null || price < 0)) {
+    errors.push({
+      row,
+      field: "price",
+      message: `price must be a non-negative number, got "${raw.price}"`,
+    });
+  }
+
+  const image = readString(raw.image);
+  if (image && !isHttpUrl(image)) {
+    errors.push({
+      row,
+      field: "image",
+      message: `image must be an http(s) URL, got "${image}"`,
+    });
+  }
+
+  const rawTags = readTags(raw.tags);
+  if (rawTags === null) {
+    errors.push({
+      row,
+      field: "tags",
+      message: "tags must be a list of strings",
+    });
+  }
+
+  if (errors.length > 0) {
+    return { product: null, errors, duplicateTags: 0 };
+  }
+
+  const nonEmptyTags = rawTags!.filter((tag) => tag.trim());
+  const tags = normalizeTags(nonEmptyTags);
+
+  return {
+    product: {
+      id: id!,
+      name: readString(raw.name),
+      category: readString(raw.category).toLowerCase(),
+      tags,
+      image,
+      price: price!,
+      description: readString(raw.description),
+    },
+    errors,
+    duplicateTags: nonEmptyTags.length - tags.length,
+  };
+}
+
+/**
+ * Parse a CSV or JSON feed into validated, normalized catalog products.
+ * Invalid rows are reported in `errors` and left out of `products`.
+ */
+export function importCatalog(
+  text: string,
+  format: CatalogFormat
+): CatalogImportResult {
+  let rawRows: RawRow[];
+
+  if (format === "csv") {
+    rawRows = parseCsv(text);
+  } else {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      return {
+        products: [],
+        errors: [
+          { row: 0, message: `Invalid JSON: ${(error as Error).message}` },
+        ],
+        duplicateTagsRemoved: 0,
+        unknownAliasCategories: [],
+      };
+    }
+    if (!Array.isArray(parsed)) {
+      return {
+        products: [],
+        errors: [{ row: 0, message: "JSON feed must be an array of products" }],
+        duplicateTagsRemoved: 0,
+        unknownAliasCategories: [],
+      };
+    }
+    rawRows = parsed;
+  }
+
+  const products: Product[] = [];
+  const errors: RowError[] = [];
+  const seenIds = new Map<number, number>();
+  let duplicateTagsRemoved = 0;
+
+  rawRows.forEach((raw, index) => {
+    const row = index + 1;
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+      errors.push({ row, message: "Row must be an object" });
+      return;
+    }
+
+    const result = validateRow(raw, row);
+    errors.push(...result.errors);
+
+    if (!result.product) {
+      return;
+    }
+
+    const firstRow = seenIds.get(result.product.id);
+    if (firstRow !== undefined) {
+      errors.push({
+        row,
+        field: "id",
+        message: `Duplicate id ${result.product.id} (first used on row ${firstRow})`,
+      });
+      return;
+    }
+
+    seenIds.set(result.product.id, row);
+    duplicateTagsRemoved += result.duplicateTags;
+    products.push(result.product);
+  });
+
+  return {
+    products,
+    errors,
+    duplicateTagsRemoved,
+    unknownAliasCategories: getUnknownAliasCategories(
+      products.map((product) => product.category)
+    ),
+  };
+}
+
+/**
+ * Pick the feed format from a file name
+ */
+export function detectCatalogFormat(fileName: string): CatalogFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  return extension === "csv" || extension === "json" ? extension : null;
+}
@@ -0,0 +1,82 @@
+import { Product } from "@/data/products";
+import {
+  findMatchingProducts,
+  MatchResult,
+  ScoredProduct,
+} from "./productMatcher";
+import {
+  DEFAULT_TEXT_WEIGHT,
+  HybridMatch,
+  rankHybridMatches,
+} from "./hybridRanker";
+import {
+  applyFacetFilters,
+  computeFacets,
+  FacetCounts,
+  sortProducts,
+} from "./facets";
+import { SearchState } from "./searchState";
+import { DEFAULT_SCORING_CONFIG, ScoringConfig } from "./scoringConfig";
+
+/** Image matches considered before text fusion, unless the caller asks for more */
+export const DEFAULT_IMAGE_MATCH_LIMIT = 50;
+
+export interface CatalogSearchResult {
+  /** Tag match for the detected labels, or null without labels */
+  matchResult: MatchResult | null;
+  /** Ranked by image and text, before facets are applied */
+  ranked: HybridMatch[];
+  /** Ranked results after facets and sorting */
+  results: HybridMatch[];
+  facets: FacetCounts;
+}
+
+/**
+ * Image matches in a form the hybrid ranker takes. A "none" match
+ * contributes nothing, so text search covers the whole catalog.
+ */
+export function getImageMatches(result: MatchResult | null): ScoredProduct[] {
+  if (!result || result.status === "none") {
+    return [];
+  }
+  return result.products.map((product, index) => ({
+    product,
+    score: result.scores[index],
+  }));
+}
+
+/**
+ * Run a full search from serializable state: tag matching on the detected
+ * labels, hybrid ranking with the query, then facets and sorting.
+ * Needs no browser APIs, so it also renders results on the server.
+ */
+export function searchCatalog(
+  state: SearchState,
+  allProducts: Product[],
+  textWeight: number = DEFAULT_TEXT_WEIGHT,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+  imageMatchLimit: number = DEFAULT_IMAGE_MATCH_LIMIT
+): CatalogSearchResult {
+  const matchResult =
+    state.labels.length > 0
+      ? findMatchingProducts(state.labels, allProducts, imageMatchLimit, config)
+      : null;
+  const ranked = rankHybridMatches(
+    getImageMatches(matchResult),
+    state.query,
+    allProducts,
+    textWeight
+  );
+  const rankedProducts = ranked.map((match) => match.product);
+  const byId = new Map(ranked.map((match) => [match.product.id, match]));
+
+  return {
+    matchResult,
+    ranked,
+    results: sortProducts(
+      applyFacetFilters(rankedProducts, state.filters),
+      state.sort
+    ).map((product) => byId.get(product.id)!),
+    facets: computeFacets(rankedProducts, state.filters),
+  };
+}
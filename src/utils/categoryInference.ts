@@ -0,0 +1,109 @@
+import { Prediction } from "./imageClassifier";
+import { expandClassName, getAliasedCategories } from "./labelExpansion";
+import { lookupExact, TagIndex, tokenizeClassName } from "./tagIndex";
+import { ScoringConfig } from "./scoringConfig";
+
+/**
+ * How likely the photo shows a product from one catalog category
+ */
+export interface CategoryProbability {
+  category: string;
+  probability: number;
+}
+
+/** Only the strongest predictions say anything about the category */
+const CATEGORY_PREDICTIONS = 5;
+
+// Follow the taxonomy all the way up; every step is a sure "is a"
+const CATEGORY_EXPANSION = { synonymWeight: 1, broaderWeight: 1, maxDepth: 5 };
+
+/**
+ * Catalog categories a class name points at, each with its share of the
+ * evidence. The label taxonomy decides when it knows the label
+ * ("golden retriever" -> dog -> pet -> pets); otherwise the categories of
+ * products tagged with the label's words are used, by product count.
+ */
+function getPredictionCategories(
+  className: string,
+  index: TagIndex,
+  config: ScoringConfig
+): Map<string, number> {
+  const shares = new Map<string, number>();
+  const terms = [
+    className.toLowerCase().split(",")[0].trim(),
+    ...expandClassName(className, CATEGORY_EXPANSION).map(({ term }) => term),
+  ];
+  // Aliases are fixed while the catalog is imported, so skip categories it lacks
+  const mapped = new Set(
+    terms
+      .flatMap((term) => [...getAliasedCategories(term), term])
+      .filter((category) => index.categories.has(category))
+  );
+  if (mapped.size > 0) {
+    mapped.forEach((category) => shares.set(category, 1 / mapped.size));
+    return shares;
+  }
+
+  const productIndices = new Set<number>();
+  tokenizeClassName(className, config.stopWords)
+    .filter((token) => token.length >= config.minWordLength)
+    .forEach((token) =>
+      lookupExact(index, token)
+        .filter((posting) => posting.field === "tag")
+        .forEach((posting) => productIndices.add(posting.productIndex))
+    );
+  productIndices.forEach((productIndex) => {
+    const category = index.products[productIndex].category.toLowerCase();
+    shares.set(category, (shares.get(category) ?? 0) + 1 / productIndices.size);
+  });
+  return shares;
+}
+
+/**
+ * Combine the top predictions into a probability distribution over catalog
+ * categories, most likely first. Predictions that point at no category
+ * still count toward the total, so the result sums to less than 1 when the
+ * photo is ambiguous.
+ */
+export function inferCategories(
+  predictions: Prediction[],
+  index: TagIndex,
+  config: ScoringConfig
+): CategoryProbability[] {
+  const top = [...predictions]
+    .filter((pred) => pred.probability >= config.minProbability)
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, CATEGORY_PREDICTIONS);
+  const total = top.reduce((sum, pred) => sum + pred.probability, 0);
+  if (total === 0) {
+    return [];
+  }
+
+  const probabilities = new Map<string, number>();
+  top.forEach(({ className, probability }) =>
+    getPredictionCategories(className, index, config).forEach(
+      (share, category) =>
+        probabilities.set(
+          category,
+          (probabilities.get(category) ?? 0) + (probability * share) / total
+        )
+    )
+  );
+
+  return [...probabilities.entries()]
+    .map(([category, probability]) => ({ category, probability }))
+    .sort((a, b) => b.probability - a.probability);
+}
+
+/**
+ * The most likely category, if it is likely enough to narrow results to
+ */
+export function getConfidentCategory(
+  categories: CategoryProbability[],
+  config: ScoringConfig
+): string | null {
+  const top = categories[0];
+  return top && top.probability >= config.confidentCategoryProbability
+    ? top.category
+    : null;
+}
@@ -0,0 +1,336 @@
+import { Prediction } from "./imageClassifier";
+import { decodeImageBlob } from "./imagePreprocessing";
+import {
+  ClassificationStage,
+  ClassifierRequest,
+  ClassifierResponse,
+  ModelLoadState,
+} from "@/workers/classifierProtocol";
+
+export type { ClassificationStage, ModelLoadState };
+
+export interface ClassificationResult {
+  predictions: Prediction[];
+  embedding: number[] | null;
+}
+
+interface PendingRequest {
+  resolve: (result: ClassificationResult | null) => void;
+  reject: (error: Error) => void;
+  onProgress?: (stage: ClassificationStage, progress: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+let latestClassifyId: number | null = null;
+let loadState: ModelLoadState = "idle";
+const pending = new Map<number, PendingRequest>();
+const loadStateListeners = new Set<(state: ModelLoadState) => void>();
+
+function handleMessage(event: MessageEvent<ClassifierResponse>): void {
+  const message = event.data;
+
+  if (message.type === "load-state") {
+    loadState = message.state;
+    if (message.error) {
+      console.error("[ClassifierClient] Model failed to load:", message.error);
+    }
+    loadStateListeners.forEach((listener) => listener(message.state));
+    return;
+  }
+
+  const request = pending.get(message.requestId);
+  if (!request) {
+    return;
+  }
+
+  switch (message.type) {
+    case "progress":
+      request.onProgress?.(message.stage, message.progress);
+      break;
+    case "result":
+      pending.delete(message.requestId);
+      request.resolve({
+        predictions: message.predictions,
+        embedding: message.embedding,
+      });
+      break;
+    case "cancelled":
+      pending.delete(message.requestId);
+      request.resolve(null);
+      break;
+    case "error":
+      pending.delete(message.requestId);
+      request.reject(new Error(message.error));
+      break;
+  }
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(
+      new URL("../workers/classifier.worker.ts", import.meta.url)
+    );
+    worker.onmessage = handleMessage;
+  }
+  return worker;
+}
+
+function send(request: ClassifierRequest, transfer: Transferable[] = []): void {
+  getWorker().postMessage(request, transfer);
+}
+
+function startRequest(
+  build: (requestId: number) => ClassifierRequest,
+  bitmap: ImageBitmap,
+  onProgress?: PendingRequest["onProgress"]
+): { requestId: number; promise: Promise<ClassificationResult | null> } {
+  const requestId = nextRequestId++;
+  const promise = new Promise<ClassificationResult | null>(
+    (resolve, reject) => {
+      pending.set(requestId, { resolve, reject, onProgress });
+    }
+  );
+  send(build(requestId), [bitmap]);
+  return { requestId, promise };
+}
+
+/**
+ * Start loading the model in the worker and subscribe to its load state.
+ * Returns an unsubscribe function.
+ */
+export function loadModelInWorker(
+  onStateChange: (state: ModelLoadState) => void
+): () => void {
+  loadStateListeners.add(onStateChange);
+  onStateChange(loadState);
+  if (loadState === "idle" || loadState === "error") {
+    send({ type: "load" });
+  }
+  return () => {
+    loadStateListeners.delete(onStateChange);
+  };
+}
+
+/**
+ * Cancel a request; its promise resolves with null
+ */
+export function cancelRequest(requestId: number): void {
+  if (pending.has(requestId)) {
+    send({ type: "cancel", requestId });
+  }
+}
+
+/**
+ * Classify an image in the worker, cancelling any classification still in
+ * flight. Resolves with null when this request is itself superseded.
+ * The bitmap is transferred to the worker and must not be reused.
+ * With `augment`, predictions are averaged over flipped and cropped views,
+ * which is steadier but several times slower.
+ */
+export function classifyLatest(
+  bitmap: ImageBitmap,
+  onProgress?: (stage: ClassificationStage, progress: number) => void,
+  augment: boolean = false
+): Promise<ClassificationResult | null> {
+  if (latestClassifyId !== null) {
+    cancelRequest(latestClassifyId);
+  }
+
+  const { requestId, promise } = startRequest(
+    (id) => ({
+      type: "classify",
+      requestId: id,
+      bitmap,
+      includeEmbedding: true,
+      augment,
+    }),
+    bitmap,
+    onProgress
+  );
+  latestClassifyId = requestId;
+
+  return promise.finally(() => {
+    if (latestClassifyId === requestId) {
+      latestClassifyId = null;
+    }
+  });
+}
+
+/**
+ * Compute an image's feature vector in the worker
+ */
+export async function embedInWorker(bitmap: ImageBitmap): Promise<number[]> {
+  const { promise } = startRequest(
+    (id) => ({ type: "embed", requestId: id, bitmap }),
+    bitmap
+  );
+  const result = await promise;
+  if (!result?.embedding) {
+    throw new Error("Embedding request was cancelled");
+  }
+  return result.embedding;
+}
+
+/**
+ * Classify an image in the worker without affecting other requests,
+ * for batch jobs that process many images in turn
+ */
+export async function classifyInWorker(
+  bitmap: ImageBitmap
+): Promise<Prediction[]> {
+  const { promise } = startRequest(
+    (id) => ({
+      type: "classify",
+      requestId: id,
+      bitmap,
+      includeEmbedding: false,
+      augment: false,
+    }),
+    bitmap
+  );
+  const result = await promise;
+  if (!result) {
+    throw new Error("Classification request was cancelled");
+  }
+  return result.predictions;
+}
+
+/**
+ * Fetch an image URL into an upright, downscaled bitmap that can be
+ * transferred to the worker
+ */
+export async function loadImageBitmap(src: string): Promise<ImageBitmap> {
+  const response = await fetch(src, { mode: "cors" });
+  if (!response.ok) {
+    throw new Error(`Failed to load image: ${src} (${response.status})`);
+  }
+  return decodeImageBlob(await response.blob());
+}
+
+/** Give up on in-browser classification after this long and ask the server */
+export const SERVER_FALLBACK_TIMEOUT_MS = 15000;
+
+// Server uploads are downscaled to this size; the model only sees 224px anyway
+const SERVER_UPLOAD_SIZE = 512;
+
+let fallbackGeneration = 0;
+
+// Re-encode a bitmap as a small JPEG for upload, before it is transferred away
+async function encodeForUpload(bitmap: ImageBitmap): Promise<Blob> {
+  const scale = Math.min(
+    1,
+    SERVER_UPLOAD_SIZE / Math.max(bitmap.width, bitmap.height)
+  );
+  const canvas = new OffscreenCanvas(
+    Math.round(bitmap.width * scale),
+    Math.round(bitmap.height * scale)
+  );
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas.convertToBlob({ type: "image/jpeg", quality: 0.9 });
+}
+
+/**
+ * Classify an image with the server's copy of the model
+ */
+export async function classifyOnServer(image: Blob): Promise<Prediction[]> {
+  const body = new FormData();
+  body.append("image", image, "image.jpg");
+  const response = await fetch("/api/classify", { method: "POST", body });
+  const json = await response.json();
+  if (!response.ok) {
+    throw new Error(
+      json.error?.message ?? `Server classification failed (${response.status})`
+    );
+  }
+  return json.predictions;
+}
+
+/**
+ * Like classifyLatest, but classifies on the server when the model failed
+ * to load in the browser, or when the browser takes longer than `timeoutMs`
+ * (a slow device). Server results have no embedding.
+ */
+export async function classifyLatestWithFallback(
+  bitmap: ImageBitmap,
+  onProgress?: (stage: ClassificationStage, progress: number) => void,
+  augment: boolean = false,
+  timeoutMs: number = SERVER_FALLBACK_TIMEOUT_MS
+): Promise<ClassificationResult | null> {
+  const generation = ++fallbackGeneration;
+  const upload = await encodeForUpload(bitmap);
+
+  const classifyRemotely = async (): Promise<ClassificationResult | null> => {
+    onProgress?.("classifying", 0.4);
+    const predictions = await classifyOnServer(upload);
+    // A newer image was submitted while the server was working
+    return generation === fallbackGeneration
+      ? { predictions, embedding: null }
+      : null;
+  };
+
+  if (loadState === "error") {
+    console.log("[ClassifierClient] Model unavailable, classifying on server");
+    bitmap.close();
+    return classifyRemotely();
+  }
+
+  const local = classifyLatest(bitmap, onProgress, augment).then(
+    (result) => ({ result }),
+    (error: unknown) => {
+      console.warn(
+        "[ClassifierClient] In-browser classification failed:",
+        error
+      );
+      return "failed" as const;
+    }
+  );
+  const requestId = latestClassifyId;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => resolve("timeout"), timeoutMs);
+  });
+
+  const outcome = await Promise.race([local, timedOut]).finally(() =>
+    clearTimeout(timer)
+  );
+  if (typeof outcome === "object") {
+    return outcome.result;
+  }
+
+  if (outcome === "timeout") {
+    console.warn(
+      `[ClassifierClient] No result after ${timeoutMs}ms, classifying on server`
+    );
+    if (requestId !== null) {
+      cancelRequest(requestId);
+    }
+  } else {
+    console.log("[ClassifierClient] Classifying on server instead");
+  }
+  return classifyRemotely();
+}
+
+/**
+ * Like classifyInWorker, but classifies on the server when the model failed
+ * to load in the browser or the worker request fails
+ */
+export async function classifyInWorkerWithFallback(
+  bitmap: ImageBitmap
+): Promise<Prediction[]> {
+  const upload = await encodeForUpload(bitmap);
+  if (loadState === "error") {
+    bitmap.close();
+    return classifyOnServer(upload);
+  }
+
+  try {
+    return await classifyInWorker(bitmap);
+  } catch (error) {
+    console.warn(
+      "[ClassifierClient] In-browser classification failed, classifying on server:",
+      error
+    );
+    return classifyOnServer(upload);
+  }
+}
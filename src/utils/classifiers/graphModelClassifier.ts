@@ -0,0 +1,98 @@
+import * as tf from "@tensorflow/tfjs";
+import { GraphModelClassifierConfig } from "@/config/classifier";
+import type { ClassifierInput, Prediction } from "../imageClassifier";
+import { Classifier, ModelFileSource } from "./types";
+
+/**
+ * Custom (e.g. fine-tuned) TF.js graph model with its own label list
+ */
+export function createGraphModelClassifier(
+  config: GraphModelClassifierConfig,
+  source: ModelFileSource
+): Classifier {
+  let model: tf.GraphModel | null = null;
+  let labels: string[] = [];
+
+  const getModel = (): tf.GraphModel => {
+    if (!model) {
+      throw new Error(`Classifier ${config.name} is not loaded`);
+    }
+    return model;
+  };
+
+  // Scale pixels to the model's input range and size, as a batch of one
+  const preprocess = (input: ClassifierInput): tf.Tensor4D =>
+    tf.tidy(() => {
+      const [min, max] = config.inputRange;
+      const pixels = tf.browser.fromPixels(input).toFloat();
+      const normalized = pixels.mul((max - min) / 255).add(min);
+      const resized = tf.image.resizeBilinear(
+        normalized as tf.Tensor3D,
+        [config.inputSize, config.inputSize],
+        true
+      );
+      return resized.expandDims(0) as tf.Tensor4D;
+    });
+
+  return {
+    name: config.name,
+
+    async load() {
+      if (model) {
+        return;
+      }
+      labels = (await source.readJson(config.labelsUrl)) as string[];
+      model = await source.loadModel(config.modelUrl, config.name, (url) =>
+        tf.loadGraphModel(url)
+      );
+    },
+
+    async classify(
+      input: ClassifierInput,
+      topK: number
+    ): Promise<Prediction[]> {
+      const batch = preprocess(input);
+      const probabilities = tf.tidy(() => {
+        const logits = getModel().predict(batch) as tf.Tensor2D;
+        return tf.softmax(logits.slice([0, config.labelOffset ?? 0], [1, -1]));
+      });
+
+      try {
+        const values = await probabilities.data();
+        return Array.from(values)
+          .map((probability, index) => ({
+            className: (labels[index] ?? `class ${index}`).toLowerCase(),
+            probability,
+          }))
+          .sort((a, b) => b.probability - a.probability)
+          .slice(0, topK);
+      } finally {
+        batch.dispose();
+        probabilities.dispose();
+      }
+    },
+
+    async embed(input: ClassifierInput): Promise<number[]> {
+      if (!config.embeddingNode) {
+        throw new Error(`Classifier ${config.name} has no embedding node`);
+      }
+
+      const batch = preprocess(input);
+      const embedding = getModel().execute(
+        batch,
+        config.embeddingNode
+      ) as tf.Tensor;
+      try {
+        return Array.from(await embedding.data());
+      } finally {
+        batch.dispose();
+        embedding.dispose();
+      }
+    },
+
+    dispose() {
+      model?.dispose();
+      model = null;
+    },
+  };
+}
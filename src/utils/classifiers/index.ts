@@ -0,0 +1,38 @@
+import { ClassifierConfig } from "@/config/classifier";
+import { loadCachedModel } from "../modelCache";
+import { createGraphModelClassifier } from "./graphModelClassifier";
+import { createMobileNetClassifier } from "./mobilenetClassifier";
+import { Classifier, ModelFileSource } from "./types";
+
+export type { Classifier, ModelFileSource } from "./types";
+export { ModelFilesMissingError } from "./types";
+
+/**
+ * Self-hosted files fetched over HTTP, with graph models cached in IndexedDB
+ */
+export const browserModelSource: ModelFileSource = {
+  loadModel: loadCachedModel,
+
+  async readJson(url) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load ${url} (${response.status})`);
+    }
+    return response.json();
+  },
+};
+
+/**
+ * Build the classifier backend described by a config
+ */
+export function createClassifier(
+  config: ClassifierConfig,
+  source: ModelFileSource = browserModelSource
+): Classifier {
+  switch (config.kind) {
+    case "mobilenet":
+      return createMobileNetClassifier(config, source);
+    case "graph":
+      return createGraphModelClassifier(config, source);
+  }
+}
@@ -0,0 +1,95 @@
+import * as tf from "@tensorflow/tfjs";
+import * as mobilenet from "@tensorflow-models/mobilenet";
+import { MobileNetClassifierConfig } from "@/config/classifier";
+import type { ClassifierInput, Prediction } from "../imageClassifier";
+import { Classifier, ModelFileSource, ModelFilesMissingError } from "./types";
+
+// Self-hosted copies of the TF Hub classification models expect [0, 1] input
+const INPUT_RANGE: [number, number] = [0, 1];
+
+/**
+ * MobileNet v1/v2 with ImageNet labels, loaded from self-hosted weights.
+ * Until those are downloaded, the copy TF Hub hosts is used instead so
+ * image search keeps working on a fresh checkout.
+ */
+export function createMobileNetClassifier(
+  config: MobileNetClassifierConfig,
+  source: ModelFileSource
+): Classifier {
+  let model: mobilenet.MobileNet | null = null;
+
+  const getModel = (): mobilenet.MobileNet => {
+    if (!model) {
+      throw new Error(`Classifier ${config.name} is not loaded`);
+    }
+    return model;
+  };
+
+  return {
+    name: config.name,
+
+    async load() {
+      if (model) {
+        return;
+      }
+      try {
+        model = await source.loadModel(
+          config.modelUrl,
+          config.name,
+          (modelUrl) =>
+            mobilenet.load({
+              version: config.version,
+              alpha: config.alpha,
+              modelUrl,
+              inputRange: INPUT_RANGE,
+            })
+        );
+      } catch (error) {
+        if (!(error instanceof ModelFilesMissingError)) {
+          throw error;
+        }
+        console.warn(
+          `[MobileNetClassifier] ${error.message} Falling back to the TF Hub hosted weights.`
+        );
+        model = await mobilenet.load({
+          version: config.version,
+          alpha: config.alpha,
+        });
+      }
+    },
+
+    async classify(
+      input: ClassifierInput,
+      topK: number
+    ): Promise<Prediction[]> {
+      const pixels = tf.browser.fromPixels(input);
+      try {
+        const predictions = await getModel().classify(pixels, topK);
+        return predictions.map((pred) => ({
+          className: pred.className.toLowerCase(),
+          probability: pred.probability,
+        }));
+      } finally {
+        pixels.dispose();
+      }
+    },
+
+    async embed(input: ClassifierInput): Promise<number[]> {
+      const pixels = tf.browser.fromPixels(input);
+      // infer(..., true) returns the embedding instead of the logits
+      const embedding = getModel().infer(pixels, true);
+      try {
+        return Array.from(await embedding.data());
+      } finally {
+        pixels.dispose();
+        embedding.dispose();
+      }
+    },
+
+    dispose() {
+      // The MobileNet wrapper has no dispose; free the underlying graph model
+      (model as unknown as { model?: tf.GraphModel } | null)?.model?.dispose();
+      model = null;
+    },
+  };
+}
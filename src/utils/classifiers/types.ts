@@ -0,0 +1,43 @@
+import type * as tf from "@tensorflow/tfjs";
+import type { ClassifierInput, Prediction } from "../imageClassifier";
+
+/**
+ * The self-hosted model files haven't been downloaded (`npm run models:download`)
+ */
+export class ModelFilesMissingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelFilesMissingError";
+  }
+}
+
+/**
+ * Where a classifier reads its model files from, by their config URL
+ */
+export interface ModelFileSource {
+  /**
+   * Run `load` with something tf.loadGraphModel accepts for the model.json
+   * at `modelUrl`. Throws with setup instructions when the files are missing.
+   */
+  loadModel<T>(
+    modelUrl: string,
+    cacheKey: string,
+    load: (model: string | tf.io.IOHandler) => Promise<T>
+  ): Promise<T>;
+  /** Parsed JSON file, e.g. a label list */
+  readJson(url: string): Promise<unknown>;
+}
+
+/**
+ * Backend behind loadModel / classifyImage / getImageEmbedding
+ */
+export interface Classifier {
+  /** Name of the config this classifier was created from */
+  readonly name: string;
+  load(): Promise<void>;
+  /** Top-k predictions, class names lowercased, highest probability first */
+  classify(input: ClassifierInput, topK: number): Promise<Prediction[]>;
+  /** Penultimate-layer feature vector */
+  embed(input: ClassifierInput): Promise<number[]>;
+  dispose(): void;
+}
@@ -0,0 +1,192 @@
+/**
+ * Dominant colors of an image, named the way catalog tags name them.
+ * Every pixel is assigned to its nearest named color in CIELAB space,
+ * which tracks perceived difference far better than raw RGB.
+ */
+
+/**
+ * A color products can be tagged with
+ */
+export interface NamedColor {
+  name: string;
+  rgb: [number, number, number];
+  /** Product tags meaning this color */
+  tags: string[];
+}
+
+export interface DetectedColor {
+  name: string;
+  /** Share of the (foreground) pixels nearest this color, 0 to 1 */
+  share: number;
+}
+
+export interface ColorExtractionOptions {
+  /** Images are sampled at this size before counting */
+  sampleSize: number;
+  /** Colors covering less of the image are dropped */
+  minShare: number;
+  maxColors: number;
+}
+
+export const DEFAULT_COLOR_EXTRACTION_OPTIONS: ColorExtractionOptions = {
+  sampleSize: 64,
+  minShare: 0.12,
+  maxColors: 3,
+};
+
+export const NAMED_COLORS: NamedColor[] = [
+  { name: "black", rgb: [20, 20, 20], tags: ["black"] },
+  { name: "gray", rgb: [128, 128, 128], tags: ["gray", "grey", "space gray"] },
+  { name: "silver", rgb: [192, 192, 196], tags: ["silver"] },
+  { name: "white", rgb: [245, 245, 245], tags: ["white"] },
+  {
+    name: "beige",
+    rgb: [222, 204, 170],
+    tags: ["beige", "cream", "tan", "khaki"],
+  },
+  {
+    name: "brown",
+    rgb: [115, 70, 40],
+    tags: ["brown", "dark brown", "light brown", "bronze", "copper"],
+  },
+  { name: "red", rgb: [200, 30, 40], tags: ["red"] },
+  { name: "burgundy", rgb: [110, 20, 40], tags: ["burgundy"] },
+  { name: "orange", rgb: [240, 130, 30], tags: ["orange"] },
+  { name: "yellow", rgb: [240, 210, 40], tags: ["yellow"] },
+  { name: "gold", rgb: [200, 165, 60], tags: ["gold"] },
+  { name: "rose gold", rgb: [215, 150, 135], tags: ["rose gold"] },
+  { name: "pink", rgb: [240, 150, 180], tags: ["pink", "rose"] },
+  { name: "purple", rgb: [120, 60, 160], tags: ["purple"] },
+  { name: "navy", rgb: [20, 30, 120], tags: ["navy", "dark blue"] },
+  { name: "blue", rgb: [40, 100, 210], tags: ["blue"] },
+  { name: "light blue", rgb: [150, 200, 235], tags: ["light blue", "blue"] },
+  { name: "teal", rgb: [0, 128, 128], tags: ["teal"] },
+  { name: "green", rgb: [50, 150, 60], tags: ["green", "sage green"] },
+];
+
+// The border counts as background when one color covers this much of it
+const BACKGROUND_BORDER_SHARE = 0.6;
+// ...unless removing it would leave less than this share of the image
+const MIN_FOREGROUND_SHARE = 0.2;
+
+type Lab = [number, number, number];
+
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function rgbToLab(r: number, g: number, b: number): Lab {
+  const [lr, lg, lb] = [srgbToLinear(r), srgbToLinear(g), srgbToLinear(b)];
+  // XYZ relative to the D65 white point
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047;
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+const NAMED_COLOR_LABS = NAMED_COLORS.map(({ rgb }) => rgbToLab(...rgb));
+
+function nearestColorIndex(r: number, g: number, b: number): number {
+  const [l, a, bb] = rgbToLab(r, g, b);
+  let best = 0;
+  let bestDistance = Infinity;
+  NAMED_COLOR_LABS.forEach(([cl, ca, cb], index) => {
+    const distance = (l - cl) ** 2 + (a - ca) ** 2 + (bb - cb) ** 2;
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * Named colors covering the most of an RGBA pixel buffer, largest first.
+ * Product photos are usually shot on a plain backdrop, so a color that
+ * fills most of the border is left out as background.
+ */
+export function getDominantColors(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: ColorExtractionOptions = DEFAULT_COLOR_EXTRACTION_OPTIONS
+): DetectedColor[] {
+  const counts = new Array<number>(NAMED_COLORS.length).fill(0);
+  const borderCounts = new Array<number>(NAMED_COLORS.length).fill(0);
+  let total = 0;
+  let borderTotal = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      // Skip transparent pixels, e.g. around cut-out product shots
+      if (pixels[offset + 3] < 128) {
+        continue;
+      }
+
+      const index = nearestColorIndex(
+        pixels[offset],
+        pixels[offset + 1],
+        pixels[offset + 2]
+      );
+      counts[index]++;
+      total++;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+        borderCounts[index]++;
+        borderTotal++;
+      }
+    }
+  }
+
+  const background = borderCounts.indexOf(Math.max(...borderCounts));
+  if (
+    borderTotal > 0 &&
+    borderCounts[background] / borderTotal >= BACKGROUND_BORDER_SHARE &&
+    (total - counts[background]) / total >= MIN_FOREGROUND_SHARE
+  ) {
+    total -= counts[background];
+    counts[background] = 0;
+  }
+
+  if (total === 0) {
+    return [];
+  }
+  return counts
+    .map((count, index) => ({
+      name: NAMED_COLORS[index].name,
+      share: count / total,
+    }))
+    .filter((color) => color.share >= options.minShare)
+    .sort((a, b) => b.share - a.share)
+    .slice(0, options.maxColors);
+}
+
+/**
+ * Dominant named colors of a bitmap, sampled at a small size
+ */
+export function extractDominantColors(
+  bitmap: ImageBitmap,
+  options: ColorExtractionOptions = DEFAULT_COLOR_EXTRACTION_OPTIONS
+): DetectedColor[] {
+  const scale = options.sampleSize / Math.max(bitmap.width, bitmap.height);
+  const width = Math.max(1, Math.round(bitmap.width * Math.min(1, scale)));
+  const height = Math.max(1, Math.round(bitmap.height * Math.min(1, scale)));
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    throw new Error("2D canvas is not available");
+  }
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  return getDominantColors(data, width, height, options);
+}
+
+/**
+ * The palette entry with this name
+ */
+export function getNamedColor(name: string): NamedColor | undefined {
+  return NAMED_COLORS.find((color) => color.name === name);
+}
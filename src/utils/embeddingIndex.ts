@@ -0,0 +1,162 @@
+import { getClassifierConfig, getEmbeddingsUrl } from "@/config/classifier";
+import { Product } from "@/data/products";
+import { embedInWorker, loadImageBitmap } from "./classifierClient";
+
+/**
+ * Feature vectors keyed by product id
+ */
+export type ProductEmbeddings = Map<number, number[]>;
+
+// Keyed by catalog, so a different product list never gets another's vectors
+let cachedEmbeddings = new WeakMap<Product[], ProductEmbeddings>();
+const pendingBuilds = new WeakMap<Product[], Promise<ProductEmbeddings>>();
+
+/**
+ * Cosine similarity between two vectors, in the range [-1, 1]
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Element-wise mean of feature vectors, e.g. for several photos of one item.
+ * Null when there are none.
+ */
+export function averageEmbeddings(embeddings: number[][]): number[] | null {
+  if (embeddings.length === 0) {
+    return null;
+  }
+  return embeddings[0].map(
+    (_, i) =>
+      embeddings.reduce((sum, embedding) => sum + embedding[i], 0) /
+      embeddings.length
+  );
+}
+
+/**
+ * Catalog embeddings written by `npm run embeddings:build`. Each entry keeps
+ * the image it was computed from, so a re-imported catalog can tell which
+ * ones are stale.
+ */
+export interface EmbeddingsFile {
+  classifier: string;
+  products: Record<string, { image: string; embedding: number[] }>;
+}
+
+/**
+ * Embeddings from the static file that still match their product's image.
+ * Empty when the file hasn't been built for this classifier, which is the
+ * case in a fresh checkout.
+ */
+async function loadPrecomputedEmbeddings(
+  allProducts: Product[]
+): Promise<ProductEmbeddings> {
+  const embeddings: ProductEmbeddings = new Map();
+  const url = getEmbeddingsUrl(getClassifierConfig());
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.warn(
+        `[EmbeddingIndex] No precomputed embeddings at ${url} (${response.status}), embedding the whole catalog in the browser; run \`npm run embeddings:build\` to build them`
+      );
+      return embeddings;
+    }
+    const file = (await response.json()) as EmbeddingsFile;
+    allProducts.forEach((product) => {
+      const entry = file.products[product.id];
+      if (entry?.image === product.image) {
+        embeddings.set(product.id, entry.embedding);
+      }
+    });
+  } catch (error) {
+    console.warn("[EmbeddingIndex] Failed to load", url, error);
+  }
+  return embeddings;
+}
+
+/**
+ * The feature vector of every product image in a catalog. Precomputed
+ * embeddings are used where they are current; the rest are computed in the
+ * classifier worker. Complete results are cached per catalog, so repeated
+ * calls only pay the cost once.
+ */
+export async function buildProductEmbeddings(
+  allProducts: Product[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ProductEmbeddings> {
+  const cached = cachedEmbeddings.get(allProducts);
+  if (cached) {
+    return cached;
+  }
+
+  let pendingBuild = pendingBuilds.get(allProducts);
+  if (!pendingBuild) {
+    pendingBuild = (async () => {
+      const embeddings = await loadPrecomputedEmbeddings(allProducts);
+      const missing = allProducts.filter(
+        (product) => !embeddings.has(product.id)
+      );
+      console.log(
+        "[EmbeddingIndex] Loaded",
+        embeddings.size,
+        "precomputed embeddings, computing",
+        missing.length
+      );
+      console.time("[EmbeddingIndex] Embedding time");
+
+      let done = embeddings.size;
+      onProgress?.(done, allProducts.length);
+
+      // Sequential on purpose: the worker runs one inference at a time anyway,
+      // and holding every decoded bitmap at once wastes memory
+      for (const product of missing) {
+        try {
+          const bitmap = await loadImageBitmap(product.image);
+          embeddings.set(product.id, await embedInWorker(bitmap));
+        } catch (error) {
+          console.error("[EmbeddingIndex] Skipping product", product.id, error);
+        }
+        done++;
+        onProgress?.(done, allProducts.length);
+      }
+
+      console.timeEnd("[EmbeddingIndex] Embedding time");
+      console.log("[EmbeddingIndex] Embedded", embeddings.size, "products");
+
+      // A partial index would hide the skipped products until a reload
+      if (embeddings.size === allProducts.length) {
+        cachedEmbeddings.set(allProducts, embeddings);
+      }
+      return embeddings;
+    })().finally(() => {
+      pendingBuilds.delete(allProducts);
+    });
+    pendingBuilds.set(allProducts, pendingBuild);
+  }
+
+  return pendingBuild;
+}
+
+/**
+ * Drop cached product embeddings (e.g. after the classifier changes)
+ */
+export function clearProductEmbeddings(): void {
+  cachedEmbeddings = new WeakMap();
+}
@@ -0,0 +1,154 @@
+import { Product } from "@/data/products";
+
+export type SortOption = "relevance" | "price-asc" | "price-desc" | "name";
+
+/**
+ * Facet selections narrowing the current results:
+ * - `categories`: any of these (empty means all)
+ * - `priceRange`: inclusive [min, max], or null for no limit
+ * - `tags`: all of these
+ */
+export interface FacetFilters {
+  categories: string[];
+  priceRange: [number, number] | null;
+  tags: string[];
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+/**
+ * Facet options with counts, computed over the current results
+ */
+export interface FacetCounts {
+  categories: FacetValue[];
+  tags: FacetValue[];
+  /** Cheapest and most expensive price, or null with no results */
+  priceBounds: [number, number] | null;
+}
+
+export const EMPTY_FACET_FILTERS: FacetFilters = {
+  categories: [],
+  priceRange: null,
+  tags: [],
+};
+
+export const DEFAULT_TOP_TAGS = 12;
+
+type FacetName = keyof FacetFilters;
+
+export function hasActiveFilters(filters: FacetFilters): boolean {
+  return (
+    filters.categories.length > 0 ||
+    filters.priceRange !== null ||
+    filters.tags.length > 0
+  );
+}
+
+/**
+ * Keep products passing every facet, except `skip` when given
+ */
+export function applyFacetFilters(
+  products: Product[],
+  filters: FacetFilters,
+  skip?: FacetName
+): Product[] {
+  return products.filter((product) => {
+    if (
+      skip !== "categories" &&
+      filters.categories.length > 0 &&
+      !filters.categories.includes(product.category)
+    ) {
+      return false;
+    }
+
+    if (skip !== "priceRange" && filters.priceRange) {
+      const [min, max] = filters.priceRange;
+      if (product.price < min || product.price > max) {
+        return false;
+      }
+    }
+
+    if (
+      skip !== "tags" &&
+      !filters.tags.every((tag) => product.tags.includes(tag))
+    ) {
+      return false;
+    }
+
+    return true;
+  });
+}
+
+function countValues(values: string[]): FacetValue[] {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Count facet values over the current results. Each facet is counted with
+ * the other facets applied but not itself, so selecting one category still
+ * shows how many results the others would add. Selected categories and
+ * tags are always listed, even when no result has them or they fall outside
+ * the top `topTags`, so they can be unselected.
+ */
+export function computeFacets(
+  results: Product[],
+  filters: FacetFilters,
+  topTags: number = DEFAULT_TOP_TAGS
+): FacetCounts {
+  const categories = countValues(
+    applyFacetFilters(results, filters, "categories").map((p) => p.category)
+  );
+  filters.categories.forEach((category) => {
+    if (!categories.some((facet) => facet.value === category)) {
+      categories.push({ value: category, count: 0 });
+    }
+  });
+  categories.sort((a, b) => a.value.localeCompare(b.value));
+
+  const priced = applyFacetFilters(results, filters, "priceRange").map(
+    (p) => p.price
+  );
+  const priceBounds: [number, number] | null =
+    priced.length > 0 ? [Math.min(...priced), Math.max(...priced)] : null;
+
+  // Tags combine with AND, so count them over the fully filtered results
+  const tagCounts = countValues(
+    applyFacetFilters(results, filters).flatMap((p) => p.tags)
+  );
+  const tags = tagCounts.slice(0, topTags);
+  filters.tags.forEach((tag) => {
+    if (!tags.some((facet) => facet.value === tag)) {
+      tags.push(
+        tagCounts.find((facet) => facet.value === tag) ?? {
+          value: tag,
+          count: 0,
+        }
+      );
+    }
+  });
+
+  return { categories, tags, priceBounds };
+}
+
+/**
+ * Order products; "relevance" keeps the incoming ranking
+ */
+export function sortProducts(products: Product[], sort: SortOption): Product[] {
+  switch (sort) {
+    case "price-asc":
+      return [...products].sort((a, b) => a.price - b.price);
+    case "price-desc":
+      return [...products].sort((a, b) => b.price - a.price);
+    case "name":
+      return [...products].sort((a, b) => a.name.localeCompare(b.name));
+    default:
+      return products;
+  }
+}
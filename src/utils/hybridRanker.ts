@@ -0,0 +1,108 @@
+import { Product } from "@/data/products";
+import { ScoredProduct } from "./productMatcher";
+import { searchProducts } from "./textSearch";
+
+export type MatchSignal = "image" | "text";
+
+/**
+ * A product ranked by both the uploaded image and the search box
+ */
+export interface HybridMatch {
+  product: Product;
+  /** Fused score in [0, 1] */
+  score: number;
+  /** Image relevance in [0, 1]; 0 when the image didn't match the product */
+  imageScore: number;
+  /** Text search score relative to the best text match, in [0, 1] */
+  textScore: number;
+  /** Catalog words that matched the query, for highlighting */
+  matchedTerms: string[];
+  /** Signals that contributed to the score */
+  signals: MatchSignal[];
+}
+
+/** Default share of the fused score that comes from the text query */
+export const DEFAULT_TEXT_WEIGHT = 0.4;
+
+/**
+ * Fuse image relevance with a text query into one ranking:
+ * `score = (1 - textWeight) * image + textWeight * text`.
+ *
+ * Text refines rather than filters: every image match stays in the results,
+ * and products matching only the text are added below them. Without an
+ * image the ranking is text-only; without a query it keeps the image order.
+ */
+export function rankHybridMatches(
+  imageMatches: ScoredProduct[],
+  query: string,
+  allProducts: Product[],
+  textWeight: number = DEFAULT_TEXT_WEIGHT
+): HybridMatch[] {
+  const hasImage = imageMatches.length > 0;
+  const hasText = query.trim() !== "";
+
+  console.log("[HybridRanker] Image matches:", imageMatches.length);
+  console.log("[HybridRanker] Query:", query, "text weight:", textWeight);
+
+  if (!hasImage && !hasText) {
+    return allProducts.map((product) => ({
+      product,
+      score: 0,
+      imageScore: 0,
+      textScore: 0,
+      matchedTerms: [],
+      signals: [],
+    }));
+  }
+
+  const weight = !hasImage ? 1 : !hasText ? 0 : textWeight;
+  const imageScores = new Map(
+    imageMatches.map((match) => [match.product.id, match.score])
+  );
+  const textMatches = new Map(
+    searchProducts(allProducts, query).map((match) => [match.product.id, match])
+  );
+  const maxTextScore = Math.max(
+    0,
+    ...[...textMatches.values()].map((match) => match.score)
+  );
+
+  // Image matches first, in their own order, so ties keep the image ranking
+  const candidates = [
+    ...imageMatches.map((match) => match.product),
+    ...(hasText
+      ? allProducts.filter((product) => !imageScores.has(product.id))
+      : []),
+  ];
+
+  const ranked = candidates
+    .map((product) => {
+      const imageScore = imageScores.get(product.id) ?? 0;
+      const textMatch = textMatches.get(product.id);
+      const textScore =
+        textMatch && maxTextScore > 0 ? textMatch.score / maxTextScore : 0;
+
+      const signals: MatchSignal[] = [];
+      if (imageScore > 0) {
+        signals.push("image");
+      }
+      if (textScore > 0) {
+        signals.push("text");
+      }
+
+      return {
+        product,
+        score: (1 - weight) * imageScore + weight * textScore,
+        imageScore,
+        textScore,
+        matchedTerms: textMatch?.matchedWords ?? [],
+        signals,
+      };
+    })
+    .filter((match) => match.signals.length > 0)
+    .sort((a, b) => b.score - a.score);
+
+  console.log("[HybridRanker] Ranked products:", ranked.length);
+
+  return ranked;
+}
@@ -1,58 +1,65 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-// Using global TensorFlow.js and MobileNet loaded via CDN
-declare global {
-  interface Window {
-    tf: any;
-    mobilenet: any;
-  }
-}
+import * as tf from "@tensorflow/tfjs";
+import { ClassifierConfig, getClassifierConfig } from "@/config/classifier";
+import { Classifier, createClassifier } from "./classifiers";
 
 export interface Prediction {
   className: string;
   probability: number;
 }
 
-let model: any = null;
+/**
+ * Anything the classifier can read pixels from: DOM images on the main
+ * thread or in a worker, raw RGBA pixels on the server
+ */
+export type ClassifierInput =
+  HTMLImageElement | HTMLCanvasElement | ImageBitmap | ImageData | tf.PixelData;
+
+let model: Classifier | null = null;
+let pendingLoad: Promise<void> | null = null;
 
 /**
- * Load the MobileNet model
+ * Load the configured classifier (MobileNet v2 0.5 by default) and run a
+ * warm-up inference so the first real classification isn't slowed by
+ * shader compilation
  */
-export async function loadModel(): Promise<void> {
-  if (!model && typeof window !== "undefined") {
-    console.log("[ImageClassifier] Checking TensorFlow.js availability...");
-
-    if (!window.tf || !window.mobilenet) {
-      console.error(
-        "[ImageClassifier] TensorFlow.js or MobileNet not available"
-      );
-      console.error("[ImageClassifier] window.tf:", !!window.tf);
-      console.error("[ImageClassifier] window.mobilenet:", !!window.mobilenet);
-      throw new Error("TensorFlow.js or MobileNet not loaded from CDN");
-    }
-
-    console.log("[ImageClassifier] Initializing TensorFlow.js...");
-    await window.tf.ready();
-    console.log(
-      "[ImageClassifier] TensorFlow.js backend:",
-      window.tf.getBackend()
-    );
-
-    console.log("[ImageClassifier] Loading MobileNet model...");
-    model = await window.mobilenet.load({
-      version: 2,
-      alpha: 0.5, // Reduced from 1.0 to 0.5 for better performance with acceptable accuracy
-    });
-    console.log("[ImageClassifier] MobileNet model loaded successfully");
-  } else if (model) {
+export async function loadModel(
+  config: ClassifierConfig = getClassifierConfig()
+): Promise<void> {
+  if (model) {
     console.log("[ImageClassifier] Model already loaded");
+    return;
+  }
+
+  if (!pendingLoad) {
+    pendingLoad = (async () => {
+      console.log("[ImageClassifier] Initializing TensorFlow.js...");
+      await tf.ready();
+      console.log("[ImageClassifier] TensorFlow.js backend:", tf.getBackend());
+
+      console.log("[ImageClassifier] Loading classifier:", config.name);
+      const classifier = createClassifier(config);
+      await classifier.load();
+
+      console.log("[ImageClassifier] Warming up...");
+      console.time("[ImageClassifier] Warm-up time");
+      await classifier.classify(new ImageData(224, 224), 1);
+      console.timeEnd("[ImageClassifier] Warm-up time");
+
+      model = classifier;
+      console.log("[ImageClassifier] Classifier loaded successfully");
+    })().finally(() => {
+      pendingLoad = null;
+    });
   }
+
+  return pendingLoad;
 }
 
 /**
  * Classify an image and return predictions
  */
 export async function classifyImage(
-  imageElement: HTMLImageElement
+  imageElement: ClassifierInput
 ): Promise<Prediction[]> {
   console.log("[ImageClassifier] Starting classification...");
 
@@ -73,16 +80,28 @@ export async function classifyImage(
   const predictions = await model.classify(imageElement, 10);
 
   console.timeEnd("[ImageClassifier] Classification time");
-  console.log("[ImageClassifier] Raw predictions from model:", predictions);
+  console.log("[ImageClassifier] Predictions:", predictions);
 
-  const formattedPredictions = predictions.map((pred: any) => ({
-    className: pred.className.toLowerCase(),
-    probability: pred.probability,
-  }));
+  return predictions;
+}
 
-  console.log("[ImageClassifier] Formatted predictions:", formattedPredictions);
+/**
+ * Compute the classifier's feature vector (penultimate-layer embedding) for an image
+ */
+export async function getImageEmbedding(
+  imageElement: ClassifierInput
+): Promise<number[]> {
+  if (!model) {
+    console.log("[ImageClassifier] Model not loaded, loading now...");
+    await loadModel();
+  }
+
+  if (!model) {
+    console.error("[ImageClassifier] Model failed to load");
+    throw new Error("Model failed to load");
+  }
 
-  return formattedPredictions;
+  return model.embed(imageElement);
 }
 
 /**
@@ -0,0 +1,131 @@
+/**
+ * Turns uploaded photos into what the classifier expects: upright, no
+ * larger than needed, and cropped to the model's square input. Works on
+ * the main thread and in workers.
+ */
+
+/** Larger uploads are rejected before they are decoded */
+export const MAX_IMAGE_FILE_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Decoded images are downscaled so their longest side fits this size.
+ * Big enough for crop boxes and scene scan tiles, far smaller than a
+ * 12MP phone photo.
+ */
+export const MAX_WORKING_SIZE = 1024;
+
+/**
+ * One square view of an image for the classifier
+ */
+export interface CropVariant {
+  /** Share of the shorter side to keep, 1 for the largest centered square */
+  zoom: number;
+  /** Mirror horizontally */
+  flip: boolean;
+}
+
+export const CENTER_CROP: CropVariant = { zoom: 1, flip: false };
+
+/**
+ * Views whose predictions are averaged for test-time augmentation
+ */
+export const AUGMENTED_CROPS: CropVariant[] = [
+  CENTER_CROP,
+  { zoom: 1, flip: true },
+  { zoom: 0.8, flip: false },
+  { zoom: 0.8, flip: true },
+];
+
+/**
+ * Why a file can't be searched with, or null if it can
+ */
+export function validateImageFile(file: File): string | null {
+  if (!file.type.startsWith("image/")) {
+    return `${file.name} is not an image`;
+  }
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+  if (file.size > MAX_IMAGE_FILE_BYTES) {
+    const sizeMb = (file.size / 1024 / 1024).toFixed(1);
+    const limitMb = MAX_IMAGE_FILE_BYTES / 1024 / 1024;
+    return `${file.name} is too large (${sizeMb} MB, the limit is ${limitMb} MB)`;
+  }
+  return null;
+}
+
+/**
+ * Shrink a bitmap so its longest side is at most `maxSize`. The original is
+ * closed when a smaller copy is made.
+ */
+export async function downscaleBitmap(
+  bitmap: ImageBitmap,
+  maxSize: number = MAX_WORKING_SIZE
+): Promise<ImageBitmap> {
+  const scale = maxSize / Math.max(bitmap.width, bitmap.height);
+  if (scale >= 1) {
+    return bitmap;
+  }
+
+  try {
+    return await createImageBitmap(bitmap, {
+      resizeWidth: Math.max(1, Math.round(bitmap.width * scale)),
+      resizeHeight: Math.max(1, Math.round(bitmap.height * scale)),
+      resizeQuality: "high",
+    });
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Decode an image file upright, following its EXIF orientation, and
+ * downscale it to the working size
+ */
+export async function decodeImageBlob(
+  blob: Blob,
+  maxSize: number = MAX_WORKING_SIZE
+): Promise<ImageBitmap> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" });
+  } catch {
+    throw new Error("The file could not be read as an image");
+  }
+  return downscaleBitmap(bitmap, maxSize);
+}
+
+/**
+ * Square crop from the middle of a bitmap, scaled to `size` pixels, so the
+ * model sees the subject undistorted instead of a squashed full frame
+ */
+export function cropToSquare(
+  bitmap: ImageBitmap,
+  size: number,
+  variant: CropVariant = CENTER_CROP
+): ImageBitmap {
+  const side = Math.min(bitmap.width, bitmap.height) * variant.zoom;
+  const canvas = new OffscreenCanvas(size, size);
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("2D canvas is not available");
+  }
+
+  context.imageSmoothingQuality = "high";
+  if (variant.flip) {
+    context.translate(size, 0);
+    context.scale(-1, 1);
+  }
+  context.drawImage(
+    bitmap,
+    (bitmap.width - side) / 2,
+    (bitmap.height - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    size,
+    size
+  );
+  return canvas.transferToImageBitmap();
+}
@@ -0,0 +1,124 @@
+import { CATEGORY_ALIASES, LABEL_TAXONOMY } from "@/data/labelTaxonomy";
+
+export type ExpansionRelation = "synonym" | "broader";
+
+/**
+ * How far to follow the label taxonomy and how much expanded terms count
+ * relative to the label itself
+ */
+export interface LabelExpansionConfig {
+  /** Weight of a synonym relative to the term it came from */
+  synonymWeight: number;
+  /** Weight of a broader term relative to the term it came from */
+  broaderWeight: number;
+  /** Number of broader steps to follow ("espresso maker" -> "coffee maker" is 1) */
+  maxDepth: number;
+}
+
+/**
+ * A vocabulary term reached from a prediction's class name
+ */
+export interface ExpandedTerm {
+  term: string;
+  relation: ExpansionRelation;
+  /** Product of the weights along the path from the class name */
+  weight: number;
+}
+
+let aliasCategories: Map<string, string[]> | null = null;
+
+/**
+ * Split an ImageNet class name into its comma-separated synonyms
+ */
+function splitClassName(className: string): string[] {
+  return className
+    .toLowerCase()
+    .split(",")
+    .map((part) => part.trim().replace(/\s+/g, " "))
+    .filter(Boolean);
+}
+
+/**
+ * Expand a class name into related vocabulary terms: the label's own
+ * synonyms, mapped synonyms and the chain of broader terms. Each term is
+ * returned once, at the highest weight it was reached with.
+ */
+export function expandClassName(
+  className: string,
+  config: LabelExpansionConfig
+): ExpandedTerm[] {
+  const parts = splitClassName(className);
+  if (parts.length === 0) {
+    return [];
+  }
+
+  const expanded = new Map<string, ExpandedTerm>();
+  const queue = [{ term: parts[0], weight: 1, depth: 0 }];
+
+  const add = (
+    term: string,
+    relation: ExpansionRelation,
+    weight: number,
+    depth: number
+  ) => {
+    if (parts[0] === term || weight <= (expanded.get(term)?.weight ?? 0)) {
+      return;
+    }
+    expanded.set(term, { term, relation, weight });
+    queue.push({ term, weight, depth });
+  };
+
+  // ImageNet lists synonyms in the class name itself
+  parts.slice(1).forEach((part) => add(part, "synonym", 1, 0));
+
+  while (queue.length > 0) {
+    const { term, weight, depth } = queue.shift()!;
+    const mapping = LABEL_TAXONOMY[term];
+    if (!mapping) {
+      continue;
+    }
+
+    mapping.synonyms?.forEach((synonym) =>
+      add(synonym, "synonym", weight * config.synonymWeight, depth)
+    );
+    if (mapping.broader && depth < config.maxDepth) {
+      add(mapping.broader, "broader", weight * config.broaderWeight, depth + 1);
+    }
+  }
+
+  return [...expanded.values()];
+}
+
+/**
+ * Categories the label taxonomy has aliases for that no product is in.
+ * Those aliases are ignored when inferring categories, so a catalog import
+ * should report them.
+ */
+export function getUnknownAliasCategories(
+  categories: Iterable<string>
+): string[] {
+  const known = new Set(
+    [...categories].map((category) => category.toLowerCase())
+  );
+  return Object.keys(CATEGORY_ALIASES).filter(
+    (category) => !known.has(category)
+  );
+}
+
+/**
+ * Catalog categories a vocabulary term is an alias for
+ */
+export function getAliasedCategories(term: string): string[] {
+  if (!aliasCategories) {
+    aliasCategories = new Map();
+    Object.entries(CATEGORY_ALIASES).forEach(([category, aliases]) => {
+      aliases.forEach((alias) => {
+        aliasCategories!.set(alias, [
+          ...(aliasCategories!.get(alias) ?? []),
+          category,
+        ]);
+      });
+    });
+  }
+  return aliasCategories.get(term) ?? [];
+}
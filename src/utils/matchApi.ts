@@ -0,0 +1,408 @@
+import { Product } from "@/data/products";
+import { CategoryProbability } from "./categoryInference";
+import { Prediction } from "./imageClassifier";
+import { MatchStatus } from "./productMatcher";
+import {
+  getScoringConfig,
+  SCORING_PRESETS,
+  ScoringPreset,
+} from "./scoringConfig";
+import { searchCatalog } from "./catalogSearch";
+import { EMPTY_FACET_FILTERS } from "./facets";
+import { DEFAULT_TEXT_WEIGHT } from "./hybridRanker";
+import { FieldError } from "./apiErrors";
+
+export const MAX_PREDICTIONS = 50;
+export const DEFAULT_MATCH_LIMIT = 20;
+export const MAX_MATCH_LIMIT = 100;
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Scoring settings a caller may override on top of a preset
+ */
+export interface ScoringOverrides {
+  minScore?: number;
+  minProbability?: number;
+  idfWeight?: number;
+}
+
+/**
+ * Validated body of `POST /api/match`
+ */
+export interface MatchRequest {
+  predictions: Prediction[];
+  query: string;
+  category: string | null;
+  limit: number;
+  /** Share of the score from the text query when both are given */
+  textWeight: number;
+  preset: ScoringPreset;
+  scoring: ScoringOverrides;
+}
+
+export interface MatchResponseItem {
+  product: Product;
+  /** Fused image and text score in [0, 1] */
+  score: number;
+  imageScore: number;
+  textScore: number;
+  /** Product tags the predictions matched */
+  matchedTags: string[];
+  /** Catalog words the query matched */
+  matchedTerms: string[];
+}
+
+export interface MatchResponse {
+  /** Confidence of the image match; null without predictions */
+  status: MatchStatus | null;
+  categoryGuess: string | null;
+  /** Likely catalog categories for the predictions, most likely first */
+  categories: CategoryProbability[];
+  /** Number of matching products before `limit` was applied */
+  total: number;
+  results: MatchResponseItem[];
+}
+
+/**
+ * Validated query of `GET /api/products`
+ */
+export interface ProductsQuery {
+  page: number;
+  pageSize: number;
+  category: string | null;
+}
+
+export interface ProductsPage {
+  products: Product[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export type Validated<T> =
+  { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read an optional number within [min, max], recording an error when it is
+ * present but invalid
+ */
+function readNumberField(
+  value: unknown,
+  field: string,
+  range: { min: number; max: number; integer?: boolean },
+  errors: FieldError[]
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (
+    typeof value !== "number" ||
+    !Number.isFinite(value) ||
+    (range.integer && !Number.isInteger(value)) ||
+    value < range.min ||
+    value > range.max
+  ) {
+    errors.push({
+      field,
+      message: `${field} must be ${range.integer ? "an integer" : "a number"} ${
+        Number.isFinite(range.max)
+          ? `from ${range.min} to ${range.max}`
+          : `of at least ${range.min}`
+      }`,
+    });
+    return undefined;
+  }
+  return value;
+}
+
+function readPredictions(value: unknown, errors: FieldError[]): Prediction[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    errors.push({
+      field: "predictions",
+      message: "predictions must be an array",
+    });
+    return [];
+  }
+  if (value.length > MAX_PREDICTIONS) {
+    errors.push({
+      field: "predictions",
+      message: `predictions can have at most ${MAX_PREDICTIONS} entries`,
+    });
+    return [];
+  }
+
+  const predictions: Prediction[] = [];
+  value.forEach((item, index) => {
+    const field = `predictions.${index}`;
+    if (!isRecord(item)) {
+      errors.push({ field, message: "Prediction must be an object" });
+      return;
+    }
+    if (typeof item.className !== "string" || item.className.trim() === "") {
+      errors.push({
+        field: `${field}.className`,
+        message: "className must be a non-empty string",
+      });
+    }
+    const probability = readNumberField(
+      item.probability,
+      `${field}.probability`,
+      { min: 0, max: 1 },
+      errors
+    );
+    if (item.probability === undefined) {
+      errors.push({
+        field: `${field}.probability`,
+        message: "probability is required",
+      });
+    }
+    if (typeof item.className === "string" && probability !== undefined) {
+      predictions.push({ className: item.className.trim(), probability });
+    }
+  });
+  return predictions;
+}
+
+function readOptionalString(
+  value: unknown,
+  field: string,
+  errors: FieldError[]
+): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    errors.push({ field, message: `${field} must be a string` });
+    return undefined;
+  }
+  return value.trim();
+}
+
+/**
+ * Validate a `POST /api/match` body, collecting every invalid field.
+ * At least one of `predictions` and `query` is required.
+ */
+export function parseMatchRequest(body: unknown): Validated<MatchRequest> {
+  if (!isRecord(body)) {
+    return {
+      ok: false,
+      errors: [{ field: "", message: "Body must be a JSON object" }],
+    };
+  }
+
+  const errors: FieldError[] = [];
+  const predictions = readPredictions(body.predictions, errors);
+  const query = readOptionalString(body.query, "query", errors) ?? "";
+  const category = readOptionalString(body.category, "category", errors);
+  const limit = readNumberField(
+    body.limit,
+    "limit",
+    { min: 1, max: MAX_MATCH_LIMIT, integer: true },
+    errors
+  );
+  const textWeight = readNumberField(
+    body.textWeight,
+    "textWeight",
+    { min: 0, max: 1 },
+    errors
+  );
+
+  const preset = readOptionalString(body.preset, "preset", errors);
+  if (preset !== undefined && !Object.hasOwn(SCORING_PRESETS, preset)) {
+    errors.push({
+      field: "preset",
+      message: `preset must be one of ${Object.keys(SCORING_PRESETS).join(", ")}`,
+    });
+  }
+
+  const scoring: ScoringOverrides = {};
+  if (body.scoring !== undefined && !isRecord(body.scoring)) {
+    errors.push({ field: "scoring", message: "scoring must be an object" });
+  } else if (isRecord(body.scoring)) {
+    scoring.minScore = readNumberField(
+      body.scoring.minScore,
+      "scoring.minScore",
+      { min: 0, max: Infinity },
+      errors
+    );
+    scoring.minProbability = readNumberField(
+      body.scoring.minProbability,
+      "scoring.minProbability",
+      { min: 0, max: 1 },
+      errors
+    );
+    scoring.idfWeight = readNumberField(
+      body.scoring.idfWeight,
+      "scoring.idfWeight",
+      { min: 0, max: 1 },
+      errors
+    );
+  }
+
+  if (errors.length === 0 && predictions.length === 0 && query === "") {
+    errors.push({
+      field: "predictions",
+      message: "Provide predictions, a query, or both",
+    });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      predictions,
+      query,
+      category: category ? category.toLowerCase() : null,
+      limit: limit ?? DEFAULT_MATCH_LIMIT,
+      textWeight: textWeight ?? DEFAULT_TEXT_WEIGHT,
+      preset: (preset as ScoringPreset | undefined) ?? "balanced",
+      // Leave out unset overrides so they don't replace preset values
+      scoring: Object.fromEntries(
+        Object.entries(scoring).filter(([, value]) => value !== undefined)
+      ),
+    },
+  };
+}
+
+/**
+ * Rank products for a validated match request: the same tag matching and
+ * image/text fusion as the search page, with the requested scoring
+ */
+export function runMatch(
+  request: MatchRequest,
+  allProducts: Product[]
+): MatchResponse {
+  const config = getScoringConfig(request.preset, request.scoring);
+  // Rank the whole catalog, uncut, so the category filter can't empty a
+  // truncated list, `total` counts every match, and the limit applies after
+  // image and text scores are fused
+  const { matchResult, results } = searchCatalog(
+    {
+      query: request.query,
+      filters: {
+        ...EMPTY_FACET_FILTERS,
+        categories: request.category ? [request.category] : [],
+      },
+      sort: "relevance",
+      labels: request.predictions,
+    },
+    allProducts,
+    request.textWeight,
+    config,
+    allProducts.length
+  );
+
+  const tagMatches = new Map(
+    matchResult?.products.map((product, index) => [
+      product.id,
+      matchResult.matchedTags[index],
+    ]) ?? []
+  );
+  // Without a confident signal the ranker falls back to the whole catalog
+  const matches = results.filter((match) => match.signals.length > 0);
+
+  return {
+    status: matchResult?.status ?? null,
+    categoryGuess: matchResult?.categoryGuess ?? null,
+    categories: matchResult?.categories ?? [],
+    total: matches.length,
+    results: matches.slice(0, request.limit).map((match) => ({
+      product: match.product,
+      score: match.score,
+      imageScore: match.imageScore,
+      textScore: match.textScore,
+      matchedTags: (tagMatches.get(match.product.id) ?? []).filter(
+        (tag) => !tag.startsWith("name:")
+      ),
+      matchedTerms: [...new Set(match.matchedTerms)],
+    })),
+  };
+}
+
+function readIntegerParam(
+  params: URLSearchParams,
+  name: string,
+  range: { min: number; max: number },
+  errors: FieldError[]
+): number | undefined {
+  const raw = params.get(name);
+  if (raw === null) {
+    return undefined;
+  }
+  return readNumberField(
+    raw.trim() === "" ? NaN : Number(raw),
+    name,
+    { ...range, integer: true },
+    errors
+  );
+}
+
+/**
+ * Validate `GET /api/products` query parameters: `page` (from 1),
+ * `pageSize` and `category`
+ */
+export function parseProductsQuery(
+  params: URLSearchParams
+): Validated<ProductsQuery> {
+  const errors: FieldError[] = [];
+  const page = readIntegerParam(
+    params,
+    "page",
+    { min: 1, max: Infinity },
+    errors
+  );
+  const pageSize = readIntegerParam(
+    params,
+    "pageSize",
+    { min: 1, max: MAX_PAGE_SIZE },
+    errors
+  );
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const category = params.get("category")?.trim().toLowerCase();
+  return {
+    ok: true,
+    value: {
+      page: page ?? 1,
+      pageSize: pageSize ?? DEFAULT_PAGE_SIZE,
+      category: category || null,
+    },
+  };
+}
+
+/**
+ * One page of the catalog in catalog order, optionally within a category.
+ * Pages past the end are empty.
+ */
+export function pageProducts(
+  allProducts: Product[],
+  query: ProductsQuery
+): ProductsPage {
+  const filtered = query.category
+    ? allProducts.filter((product) => product.category === query.category)
+    : allProducts;
+  const start = (query.page - 1) * query.pageSize;
+
+  return {
+    products: filtered.slice(start, start + query.pageSize),
+    page: query.page,
+    pageSize: query.pageSize,
+    total: filtered.length,
+    totalPages: Math.ceil(filtered.length / query.pageSize),
+  };
+}
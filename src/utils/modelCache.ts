@@ -0,0 +1,116 @@
+import * as tf from "@tensorflow/tfjs";
+import { ModelFilesMissingError } from "./classifiers/types";
+
+/**
+ * Bump when the self-hosted model files change, so browsers drop the copy
+ * they saved in IndexedDB instead of using it forever
+ */
+export const MODEL_CACHE_VERSION = 1;
+
+function getCacheUrl(cacheKey: string): string {
+  return `indexeddb://${cacheKey}@v${MODEL_CACHE_VERSION}`;
+}
+
+// Copies saved under an older version (or before versioning) of the same model
+async function removeStaleCopies(
+  cachedUrls: string[],
+  cacheKey: string
+): Promise<void> {
+  const current = getCacheUrl(cacheKey);
+  const stale = cachedUrls.filter(
+    (url) =>
+      url !== current &&
+      (url === `indexeddb://${cacheKey}` ||
+        url.startsWith(`indexeddb://${cacheKey}@`))
+  );
+  for (const url of stale) {
+    console.log("[ModelCache] Removing stale cached model:", url);
+    await tf.io.removeModel(url);
+  }
+}
+
+/**
+ * Fail with setup instructions instead of an opaque 404 from the model loader
+ */
+async function assertModelFilesPresent(modelUrl: string): Promise<void> {
+  const response = await fetch(modelUrl, { method: "HEAD" });
+  if (response.status === 404) {
+    throw new ModelFilesMissingError(
+      `Model files not found at ${modelUrl}. Run \`npm run models:download\` to put them in /public${modelUrl.slice(0, modelUrl.lastIndexOf("/"))}.`
+    );
+  }
+}
+
+/**
+ * Resolve the URL to load a graph model from: the IndexedDB copy if one was
+ * saved before, otherwise the self-hosted files, which are then cached so
+ * later loads don't touch the network.
+ */
+export async function getCachedModelUrl(
+  modelUrl: string,
+  cacheKey: string
+): Promise<string> {
+  const indexedDbUrl = getCacheUrl(cacheKey);
+
+  try {
+    const cachedModels = await tf.io.listModels();
+    await removeStaleCopies(Object.keys(cachedModels), cacheKey);
+    if (indexedDbUrl in cachedModels) {
+      console.log("[ModelCache] Using cached model:", indexedDbUrl);
+      return indexedDbUrl;
+    }
+  } catch (error) {
+    // IndexedDB can be unavailable (private browsing, storage disabled)
+    console.warn("[ModelCache] IndexedDB unavailable:", error);
+    await assertModelFilesPresent(modelUrl);
+    return modelUrl;
+  }
+
+  console.log("[ModelCache] Downloading model:", modelUrl);
+  await assertModelFilesPresent(modelUrl);
+  const model = await tf.loadGraphModel(modelUrl);
+  try {
+    await model.save(indexedDbUrl);
+    console.log("[ModelCache] Saved model to", indexedDbUrl);
+    return indexedDbUrl;
+  } catch (error) {
+    console.warn("[ModelCache] Failed to cache model:", error);
+    return modelUrl;
+  } finally {
+    model.dispose();
+  }
+}
+
+/**
+ * Remove a cached model, e.g. after its files were updated
+ */
+export async function clearCachedModel(cacheKey: string): Promise<void> {
+  await tf.io.removeModel(getCacheUrl(cacheKey));
+}
+
+/**
+ * Load a graph model through the IndexedDB cache. If the cached copy can't
+ * be loaded (corrupt or incomplete), it is removed and the self-hosted
+ * files are loaded instead.
+ */
+export async function loadCachedModel<T>(
+  modelUrl: string,
+  cacheKey: string,
+  load: (url: string) => Promise<T>
+): Promise<T> {
+  const url = await getCachedModelUrl(modelUrl, cacheKey);
+  if (url === modelUrl) {
+    return load(modelUrl);
+  }
+
+  try {
+    return await load(url);
+  } catch (error) {
+    console.warn("[ModelCache] Cached model failed to load:", error);
+    await clearCachedModel(cacheKey).catch(() => {
+      // Nothing left to remove
+    });
+    await assertModelFilesPresent(modelUrl);
+    return load(modelUrl);
+  }
+}
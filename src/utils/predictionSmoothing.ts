@@ -0,0 +1,156 @@
+import { Prediction } from "./imageClassifier";
+
+/**
+ * How camera frames are sampled and how steady the labels must be
+ * before results change
+ */
+export interface LiveMatchOptions {
+  /** Pause between the end of one frame's classification and the next capture */
+  frameIntervalMs: number;
+  /** Weight of the newest frame in the moving average, 0 to 1 */
+  smoothing: number;
+  /** Consecutive frames the same top label must lead for to count as stable */
+  stableFrames: number;
+  /** The smoothed top label must be at least this probable to count */
+  minProbability: number;
+}
+
+export const DEFAULT_LIVE_MATCH_OPTIONS: LiveMatchOptions = {
+  frameIntervalMs: 800,
+  smoothing: 0.4,
+  stableFrames: 3,
+  minProbability: 0.2,
+};
+
+/**
+ * Top label and for how many frames in a row it has led
+ */
+export interface LabelStability {
+  className: string | null;
+  frames: number;
+}
+
+export const INITIAL_LABEL_STABILITY: LabelStability = {
+  className: null,
+  frames: 0,
+};
+
+/**
+ * Blend a frame's predictions into the running average. A class missing
+ * from one side counts as probability 0 there, so labels fade out over a
+ * few frames instead of vanishing.
+ */
+export function smoothPredictions(
+  previous: Prediction[],
+  next: Prediction[],
+  smoothing: number,
+  limit: number = 10
+): Prediction[] {
+  if (previous.length === 0) {
+    return next.slice(0, limit);
+  }
+
+  const blended = new Map<string, number>();
+  previous.forEach(({ className, probability }) =>
+    blended.set(className, (1 - smoothing) * probability)
+  );
+  next.forEach(({ className, probability }) =>
+    blended.set(
+      className,
+      (blended.get(className) ?? 0) + smoothing * probability
+    )
+  );
+
+  return [...blended.entries()]
+    .map(([className, probability]) => ({ className, probability }))
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, limit);
+}
+
+/**
+ * Count another frame for the smoothed top label, restarting when it
+ * changes or falls below the minimum probability
+ */
+export function updateLabelStability(
+  stability: LabelStability,
+  predictions: Prediction[],
+  options: LiveMatchOptions = DEFAULT_LIVE_MATCH_OPTIONS
+): LabelStability {
+  const top = predictions[0];
+  if (!top || top.probability < options.minProbability) {
+    return INITIAL_LABEL_STABILITY;
+  }
+  if (top.className === stability.className) {
+    return { className: top.className, frames: stability.frames + 1 };
+  }
+  return { className: top.className, frames: 1 };
+}
+
+export function isLabelStable(
+  stability: LabelStability,
+  options: LiveMatchOptions = DEFAULT_LIVE_MATCH_OPTIONS
+): boolean {
+  return (
+    stability.className !== null && stability.frames >= options.stableFrames
+  );
+}
+
+/**
+ * Merge predictions for several photos of the same item into one list.
+ * Each photo's probabilities are weighted by its top probability, so a
+ * clear shot counts for more than a blurry or ambiguous one.
+ */
+export function mergePredictions(
+  lists: Prediction[][],
+  limit: number = 10
+): Prediction[] {
+  return weightedAverage(
+    lists,
+    lists.map((predictions) => predictions[0]?.probability ?? 0),
+    limit
+  );
+}
+
+/**
+ * Average the predictions for several views of one image, e.g. flipped and
+ * cropped copies. A class missing from a view's list counts as 0 there.
+ */
+export function averagePredictions(
+  lists: Prediction[][],
+  limit: number = 10
+): Prediction[] {
+  return weightedAverage(
+    lists,
+    lists.map(() => 1),
+    limit
+  );
+}
+
+function weightedAverage(
+  lists: Prediction[][],
+  weights: number[],
+  limit: number
+): Prediction[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight === 0) {
+    return [];
+  }
+
+  const merged = new Map<string, number>();
+  lists.forEach((predictions, index) =>
+    predictions.forEach(({ className, probability }) =>
+      merged.set(
+        className,
+        (merged.get(className) ?? 0) + weights[index] * probability
+      )
+    )
+  );
+
+  return [...merged.entries()]
+    .map(([className, total]) => ({
+      className,
+      probability: total / totalWeight,
+    }))
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, limit);
+}
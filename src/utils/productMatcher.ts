@@ -1,158 +1,493 @@
 import { Product } from "@/data/products";
 import { Prediction } from "./imageClassifier";
+import { cosineSimilarity, ProductEmbeddings } from "./embeddingIndex";
+import { DetectedColor, getNamedColor } from "./colorExtraction";
+import { CategoryProbability, inferCategories } from "./categoryInference";
+import {
+  getTagIndex,
+  getTokenRarity,
+  lookupExact,
+  lookupPartial,
+  Posting,
+  TagIndex,
+  tokenizeClassName,
+} from "./tagIndex";
+import {
+  expandClassName,
+  ExpansionRelation,
+  getAliasedCategories,
+} from "./labelExpansion";
+import {
+  DEFAULT_SCORING_CONFIG,
+  getRankMultiplier,
+  ScoringConfig,
+} from "./scoringConfig";
 
-interface MatchScore {
+/**
+ * How uploaded images are matched against the catalog:
+ * - "tags": MobileNet class names compared with product tags
+ * - "visual": cosine similarity of image feature vectors
+ * - "blended": weighted combination of both
+ */
+export type MatchMode = "tags" | "visual" | "blended";
+
+export type MatchReasonKind =
+  | "tagExact"
+  | "tagPartial"
+  | "nameExact"
+  | "namePartial"
+  | "category"
+  | "color"
+  | "inferredCategory";
+
+/**
+ * One scoring event: which prediction matched which part of the product.
+ * For "color", the prediction is a color detected in the image and
+ * `probability` is the share of the image it covers; for "inferredCategory",
+ * it is the product's category and the probability the photo shows it.
+ */
+export interface MatchReason {
+  kind: MatchReasonKind;
+  /** Product tag, product name word or category that matched */
+  matched: string;
+  /** Prediction word that triggered the match */
+  predictionWord: string;
+  /** Full class name of the prediction the word came from */
+  predictionClassName: string;
+  rank: number;
+  probability: number;
+  points: number;
+  /** Set when the word came from the label taxonomy, not the class name itself */
+  expansion?: { relation: ExpansionRelation; weight: number };
+}
+
+/**
+ * Total score split by where the points came from
+ */
+export interface ScoreBreakdown {
+  tagExact: number;
+  tagPartial: number;
+  name: number;
+  category: number;
+  color: number;
+  inferredCategory: number;
+}
+
+/**
+ * How much to trust an image match:
+ * - "confident": a strong top prediction produced a high-scoring product
+ * - "weak": some products matched, but not convincingly
+ * - "none": nothing scored above the cutoff
+ */
+export type MatchStatus = "confident" | "weak" | "none";
+
+export interface MatchResult {
+  status: MatchStatus;
+  /** Ranked products; empty when status is "none" */
+  products: Product[];
+  /** Relevance of each entry in `products`, scaled to [0, 1] */
+  scores: number[];
+  /** Product tags each entry in `products` matched */
+  matchedTags: string[][];
+  /** Highest-probability predictions, for showing confidences to the user */
+  topPredictions: Prediction[];
+  /** Most likely category, even when no product matched */
+  categoryGuess: string | null;
+  /** Likely catalog categories inferred from the predictions, most likely first */
+  categories: CategoryProbability[];
+}
+
+/**
+ * A product with a relevance score; the scale depends on the producer
+ */
+export interface ScoredProduct {
   product: Product;
   score: number;
-  matchedTags: string[];
 }
 
-function tokenizeClassName(className: string): string[] {
-  const original = className.trim();
+export interface MatchScore {
+  product: Product;
+  score: number;
+  breakdown: ScoreBreakdown;
+  matchedTags: string[];
+  reasons: MatchReason[];
+}
 
-  // Split by commas or spaces
-  const parts = className
-    .toLowerCase()
-    .split(/[\s,]+/)
-    .map((s) => s.trim())
-    .filter(Boolean);
+interface PredictionWord {
+  word: string;
+  className: string;
+  probability: number;
+  rank: number;
+  /** 1 for words of the class name, lower for taxonomy expansions */
+  weight: number;
+  expansion?: MatchReason["expansion"];
+}
 
-  // If original is not already in lowercase, add it at the beginning
-  return [original.toLowerCase(), ...parts];
+interface Contribution {
+  // [section (0 tag, 1 name, 2 category, 3 color, 4 inferred category), field index, token index, prediction word index]
+  order: [number, number, number, number];
+  reason: MatchReason;
+  label: string | null;
 }
 
 /**
- * Calculate similarity score between image predictions and product
- * Higher probability predictions get exponentially more weight
+ * Extract all prediction keywords with probability-based ranking, followed
+ * by the taxonomy terms each class name expands to
  */
-function calculateSimilarity(
+function extractPredictionWords(
   predictions: Prediction[],
-  product: Product
-): MatchScore {
-  let score = 0;
-  const matchedTags: string[] = [];
-
-  // Extract all prediction keywords with probability-based ranking
-  const predictionWords: { word: string; probability: number; rank: number }[] =
-    [];
+  config: ScoringConfig
+): PredictionWord[] {
+  const predictionWords: PredictionWord[] = [];
   predictions.forEach((pred, index) => {
-    const words = tokenizeClassName(pred.className);
+    if (pred.probability < config.minProbability) {
+      return;
+    }
+
+    const words = tokenizeClassName(pred.className, config.stopWords);
     words.forEach((word) => {
-      if (word.length > 2) {
+      if (word.length >= config.minWordLength) {
         // Ignore very short words
         predictionWords.push({
           word,
+          className: pred.className,
           probability: pred.probability,
           rank: index, // Lower rank = higher priority (0 is highest)
+          weight: 1,
         });
       }
     });
-  });
 
-  // Check for matches in product tags with probability-weighted scoring
-  product.tags.forEach((tag) => {
-    const tagWords = tokenizeClassName(tag);
-
-    tagWords.forEach((tagWord) => {
-      predictionWords.forEach(({ word: predWord, probability, rank }) => {
-        // Calculate priority multiplier: top predictions get much higher weight
-        // Rank 0 (highest): 5x multiplier
-        // Rank 1: 4x multiplier
-        // Rank 2: 3x multiplier
-        // Rank 3+: 2x multiplier
-        const rankMultiplier =
-          rank === 0 ? 5 : rank === 1 ? 4 : rank === 2 ? 3 : 2;
-
-        // Exact match - heavily prioritize high probability predictions
-        if (tagWord === predWord) {
-          // Base score * probability * rank multiplier
-          // Example: 91.9% probability at rank 0 = 100 * 0.919 * 5 = 459.5 points
-          score += 100 * probability * rankMultiplier;
-          matchedTags.push(tag);
-        }
-        // Partial match (one word contains the other)
-        else if (
-          (tagWord.includes(predWord) || predWord.includes(tagWord)) &&
-          tagWord.length > 3 &&
-          predWord.length > 3
+    if (!config.labelExpansion) {
+      return;
+    }
+
+    // Expanded terms are matched as whole phrases, skipping ones the class
+    // name already produced so they aren't counted twice
+    const seen = new Set(words);
+    expandClassName(pred.className, config.labelExpansion).forEach(
+      ({ term, relation, weight }) => {
+        if (
+          seen.has(term) ||
+          term.length < config.minWordLength ||
+          config.stopWords.includes(term)
         ) {
-          // Partial matches get lower base score but still weighted by probability and rank
-          score += 10 * probability * rankMultiplier;
-          if (!matchedTags.includes(tag)) {
-            matchedTags.push(tag);
-          }
+          return;
         }
-      });
-    });
+        seen.add(term);
+        predictionWords.push({
+          word: term,
+          className: pred.className,
+          probability: pred.probability,
+          rank: index,
+          weight,
+          expansion: { relation, weight },
+        });
+      }
+    );
   });
+  return predictionWords;
+}
 
-  // Check for matches in tokenized product name with probability-weighted scoring
-  const productNameWords = tokenizeClassName(product.name);
-  productNameWords.forEach((nameWord) => {
-    predictionWords.forEach(({ word: predWord, probability, rank }) => {
-      const rankMultiplier =
-        rank === 0 ? 5 : rank === 1 ? 4 : rank === 2 ? 3 : 2;
-
-      // Exact match in product name - high priority
-      if (nameWord === predWord) {
-        // Higher base score for name matches since product names are very specific
-        // Example: "Perfume Bottle" matching "perfume" = 150 * 0.919 * 5 = 689.25 points
-        score += 150 * probability * rankMultiplier;
-        matchedTags.push(`name:${nameWord}`);
-      }
-      // Partial match in product name
-      else if (
-        (nameWord.includes(predWord) || predWord.includes(nameWord)) &&
-        nameWord.length > 3 &&
-        predWord.length > 3
-      ) {
-        score += 15 * probability * rankMultiplier;
-        if (!matchedTags.includes(`name:${nameWord}`)) {
-          matchedTags.push(`name:${nameWord}`);
+function compareContributions(a: Contribution, b: Contribution): number {
+  for (let i = 0; i < a.order.length; i++) {
+    if (a.order[i] !== b.order[i]) {
+      return a.order[i] - b.order[i];
+    }
+  }
+  return 0;
+}
+
+/**
+ * Calculate similarity scores between image predictions and indexed products.
+ * Higher probability predictions get exponentially more weight.
+ *
+ * Only products sharing a token or category with the predictions are visited;
+ * every other product scores 0 and is left out of the result. Contributions
+ * are summed in tag -> name -> category -> color -> inferred category order so
+ * scores match a full scan of each product exactly.
+ *
+ * Detected image colors and the inferred category only boost products the
+ * predictions already reached: a red photo shouldn't pull in every red product.
+ */
+function calculateSimilarities(
+  predictions: Prediction[],
+  index: TagIndex,
+  config: ScoringConfig,
+  colors: DetectedColor[] = [],
+  categories: CategoryProbability[] = inferCategories(
+    predictions,
+    index,
+    config
+  )
+): MatchScore[] {
+  const { weights } = config;
+  const predictionWords = extractPredictionWords(predictions, config);
+  const contributions = new Map<number, Contribution[]>();
+
+  // Tokens shared by many products ("black", "portable") count for less
+  const getRarityFactor = (token: string) =>
+    1 - config.idfWeight + config.idfWeight * getTokenRarity(index, token);
+
+  const addContribution = (
+    productIndex: number,
+    contribution: Contribution
+  ) => {
+    const list = contributions.get(productIndex);
+    if (list) {
+      list.push(contribution);
+    } else {
+      contributions.set(productIndex, [contribution]);
+    }
+  };
+
+  const addPosting = (
+    posting: Posting,
+    token: string,
+    predIndex: number,
+    exact: boolean,
+    points: number
+  ) => {
+    const product = index.products[posting.productIndex];
+    const predictionWord = predictionWords[predIndex];
+    const isTag = posting.field === "tag";
+    const tag = product.tags[posting.fieldIndex];
+
+    addContribution(posting.productIndex, {
+      order: [isTag ? 0 : 1, posting.fieldIndex, posting.tokenIndex, predIndex],
+      reason: {
+        kind: isTag
+          ? exact
+            ? "tagExact"
+            : "tagPartial"
+          : exact
+            ? "nameExact"
+            : "namePartial",
+        matched: isTag ? tag : token,
+        predictionWord: predictionWord.word,
+        predictionClassName: predictionWord.className,
+        rank: predictionWord.rank,
+        probability: predictionWord.probability,
+        points,
+        expansion: predictionWord.expansion,
+      },
+      label: isTag ? tag : `name:${token}`,
+    });
+  };
+
+  predictionWords.forEach(
+    ({ word, className, probability, rank, weight, expansion }, predIndex) => {
+      const rankMultiplier = getRankMultiplier(rank, config);
+      const aliasedCategories = getAliasedCategories(word);
+
+      // Exact match - heavily prioritize high probability predictions
+      // Example (balanced): 91.9% probability at rank 0 = 100 * 0.919 * 5 = 459.5 points
+      // Product names are very specific, so they get a higher base score
+      // Example (balanced): "Perfume Bottle" matching "perfume" = 150 * 0.919 * 5 = 689.25 points
+      // Both are then scaled down the more products share the token
+      lookupExact(index, word).forEach((posting) => {
+        const base =
+          posting.field === "tag" ? weights.exactTag : weights.exactName;
+        addPosting(
+          posting,
+          word,
+          predIndex,
+          true,
+          base * probability * weight * rankMultiplier * getRarityFactor(word)
+        );
+      });
+
+      // Partial match (one word contains the other), both long enough
+      lookupPartial(index, word, config.minPartialLength).forEach((token) => {
+        lookupExact(index, token).forEach((posting) => {
+          const base =
+            posting.field === "tag" ? weights.partialTag : weights.partialName;
+          addPosting(
+            posting,
+            token,
+            predIndex,
+            false,
+            base *
+              probability *
+              weight *
+              rankMultiplier *
+              getRarityFactor(token)
+          );
+        });
+      });
+
+      // Check category match - prioritize high probability predictions.
+      // Taxonomy aliases also count ("coffee maker" -> kitchen)
+      index.categories.forEach((productIndices, category) => {
+        if (
+          category.includes(word) ||
+          word.includes(category) ||
+          aliasedCategories.includes(category)
+        ) {
+          productIndices.forEach((productIndex) => {
+            addContribution(productIndex, {
+              order: [2, 0, 0, predIndex],
+              reason: {
+                kind: "category",
+                matched: index.products[productIndex].category,
+                predictionWord: word,
+                predictionClassName: className,
+                rank,
+                probability,
+                points:
+                  weights.category * probability * weight * rankMultiplier,
+                expansion,
+              },
+              label: null,
+            });
+          });
         }
+      });
+    }
+  );
+
+  const categoryProbabilities = new Map(
+    categories.map(({ category, probability }) => [category, probability])
+  );
+
+  // Scores grow with the number of matching tags, so boosts add a share of
+  // the product's own score rather than fixed points
+  contributions.forEach((list, productIndex) => {
+    const { tags, category } = index.products[productIndex];
+    const predictionScore = list.reduce(
+      (sum, { reason }) => sum + reason.points,
+      0
+    );
+    colors.forEach((color, colorIndex) => {
+      const colorTags = getNamedColor(color.name)?.tags ?? [color.name];
+      const tagIndex = tags.findIndex((tag) =>
+        colorTags.includes(tag.toLowerCase())
+      );
+      if (tagIndex === -1) {
+        return;
       }
+      list.push({
+        order: [3, colorIndex, 0, 0],
+        reason: {
+          kind: "color",
+          matched: tags[tagIndex],
+          predictionWord: color.name,
+          predictionClassName: color.name,
+          rank: colorIndex,
+          probability: color.share,
+          points: predictionScore * weights.color * color.share,
+        },
+        label: tags[tagIndex],
+      });
     });
-  });
 
-  // Check category match - prioritize high probability predictions
-  predictionWords.forEach(({ word, probability, rank }) => {
-    const rankMultiplier = rank === 0 ? 5 : rank === 1 ? 4 : rank === 2 ? 3 : 2;
-    if (
-      product.category.toLowerCase().includes(word) ||
-      word.includes(product.category.toLowerCase())
-    ) {
-      score += 5 * probability * rankMultiplier;
+    const categoryProbability =
+      categoryProbabilities.get(category.toLowerCase()) ?? 0;
+    if (categoryProbability > 0) {
+      list.push({
+        order: [4, 0, 0, 0],
+        reason: {
+          kind: "inferredCategory",
+          matched: category,
+          predictionWord: category,
+          predictionClassName: category,
+          rank: 0,
+          probability: categoryProbability,
+          points:
+            predictionScore * weights.inferredCategory * categoryProbability,
+        },
+        label: null,
+      });
     }
   });
 
-  console.log("Final", { score, product });
+  // Visit candidates in catalog order so ties keep their catalog position
+  return [...contributions.keys()]
+    .sort((a, b) => a - b)
+    .map((productIndex) => {
+      const list = contributions.get(productIndex)!.sort(compareContributions);
+      let score = 0;
+      const breakdown: ScoreBreakdown = {
+        tagExact: 0,
+        tagPartial: 0,
+        name: 0,
+        category: 0,
+        color: 0,
+        inferredCategory: 0,
+      };
+      const matchedTags: string[] = [];
+      list.forEach(({ reason, label }) => {
+        score += reason.points;
+        if (reason.kind === "nameExact" || reason.kind === "namePartial") {
+          breakdown.name += reason.points;
+        } else {
+          breakdown[reason.kind] += reason.points;
+        }
+        if (label !== null) {
+          matchedTags.push(label);
+        }
+      });
 
-  return {
-    product,
-    score,
-    matchedTags: [...new Set(matchedTags)],
-  };
+      return {
+        product: index.products[productIndex],
+        score,
+        breakdown,
+        matchedTags: [...new Set(matchedTags)],
+        reasons: list.map(({ reason }) => reason),
+      };
+    });
 }
 
 /**
- * Find matching products based on image predictions
+ * Rank products against image predictions, keeping each result's score
+ * breakdown and the predictions that caused it. Products tagged with one of
+ * `colors` rank higher.
  */
-export function findMatchingProducts(
+export function rankMatchingProducts(
   predictions: Prediction[],
   allProducts: Product[],
-  limit: number = 50
-): Product[] {
+  limit: number = 50,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+  colors: DetectedColor[] = []
+): MatchScore[] {
+  const index = getTagIndex(allProducts, config.stopWords);
+  return rankIndexedProducts(
+    predictions,
+    index,
+    limit,
+    config,
+    colors,
+    inferCategories(predictions, index, config)
+  );
+}
+
+// rankMatchingProducts on a built index, with the categories already inferred
+function rankIndexedProducts(
+  predictions: Prediction[],
+  index: TagIndex,
+  limit: number,
+  config: ScoringConfig,
+  colors: DetectedColor[],
+  categories: CategoryProbability[]
+): MatchScore[] {
   console.log("[ProductMatcher] Finding matching products...");
   console.log("[ProductMatcher] Predictions:", predictions);
-  console.log("[ProductMatcher] Total products to scan:", allProducts.length);
+  console.log(
+    "[ProductMatcher] Total products to scan:",
+    index.products.length
+  );
   console.log("[ProductMatcher] Limit:", limit);
 
   console.time("[ProductMatcher] Matching time");
 
-  // Calculate similarity scores for all products
-  const scoredProducts = allProducts
-    .map((product) => calculateSimilarity(predictions, product))
-    .filter((item) => item?.score > 80);
+  // Calculate similarity scores for products reachable through the tag index
+  const scoredProducts = calculateSimilarities(
+    predictions,
+    index,
+    config,
+    colors,
+    categories
+  ).filter((item) => item.score > config.minScore);
 
   console.log(
     "[ProductMatcher] Products with scores > 0:",
@@ -172,84 +507,161 @@ export function findMatchingProducts(
   console.log("[ProductMatcher] Top 10 scored products:", topScores);
 
   // Sort by score (highest first) and return top matches
-  const sortedProducts = scoredProducts
+  const sortedMatches = scoredProducts
     .filter((item) => item.score > 0) // Only return products with some match
     .sort((a, b) => b.score - a.score)
-    .slice(0, limit)
-    .map((item) => item.product);
+    .slice(0, limit);
 
   console.timeEnd("[ProductMatcher] Matching time");
 
-  // If no matches found, return all products
-  if (sortedProducts.length === 0) {
-    console.log("[ProductMatcher] No matches found, returning all products");
-    return allProducts.slice(0, limit);
+  return sortedMatches;
+}
+
+/**
+ * Find matching products based on image predictions and colors
+ */
+export function findMatchingProducts(
+  predictions: Prediction[],
+  allProducts: Product[],
+  limit: number = 50,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+  colors: DetectedColor[] = []
+): MatchResult {
+  const index = getTagIndex(allProducts, config.stopWords);
+  // Inferred once: it both boosts products and is reported with the result
+  const categories = inferCategories(predictions, index, config);
+  const matches = rankIndexedProducts(
+    predictions,
+    index,
+    limit,
+    config,
+    colors,
+    categories
+  );
+  const topPredictions = [...predictions]
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, 3);
+  const categoryGuess = categories[0]?.category ?? null;
+
+  if (matches.length === 0) {
+    console.log("[ProductMatcher] No confident matches found");
+    return {
+      status: "none",
+      products: [],
+      scores: [],
+      matchedTags: [],
+      topPredictions,
+      categoryGuess,
+      categories,
+    };
   }
 
+  const isConfident =
+    matches[0].score >= config.confidentScore &&
+    (topPredictions[0]?.probability ?? 0) >= config.confidentProbability;
+
   console.log(
     "[ProductMatcher] Returning",
-    sortedProducts.length,
-    "matched products"
+    matches.length,
+    "matched products, status:",
+    isConfident ? "confident" : "weak"
   );
-  return sortedProducts;
+  return {
+    status: isConfident ? "confident" : "weak",
+    products: matches.map((item) => item.product),
+    scores: matches.map((item) => item.score / matches[0].score),
+    matchedTags: matches.map((item) => item.matchedTags),
+    topPredictions,
+    categoryGuess,
+    categories,
+  };
 }
 
 /**
- * Filter products by search query
+ * Products most like a catalog product, best first. Its tags and category
+ * stand in for image predictions, all equally weighted, so similarity comes
+ * from the same tag, name and category matching as image search.
  */
-export function filterProducts(
-  products: Product[],
-  searchQuery: string
-): Product[] {
-  if (!searchQuery || searchQuery.trim() === "") {
-    return products;
-  }
-
-  const query = searchQuery.toLowerCase().trim();
-
-  return products.filter((product) => {
-    // Search in product name
-    if (product.name.toLowerCase().includes(query)) {
-      return true;
-    }
-
-    // Search in category
-    if (product.category.toLowerCase().includes(query)) {
-      return true;
-    }
-
-    // Search in tags
-    if (product.tags.some((tag) => tag.toLowerCase().includes(query))) {
-      return true;
-    }
-
-    // Search in description
-    if (product.description.toLowerCase().includes(query)) {
-      return true;
-    }
-
-    return false;
-  });
+export function findSimilarProducts(
+  product: Product,
+  allProducts: Product[],
+  limit: number = 8,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): MatchScore[] {
+  const predictions = [...product.tags, product.category].map((className) => ({
+    className,
+    probability: 1,
+  }));
+  return rankMatchingProducts(predictions, allProducts, allProducts.length, {
+    ...config,
+    rankMultipliers: [1],
+    minScore: 0,
+  })
+    .filter((match) => match.product.id !== product.id)
+    .slice(0, limit);
 }
 
 /**
- * Filter products by category
+ * Score every product with a feature vector by cosine similarity to the
+ * uploaded image, best first. Feature vectors are post-ReLU, so similarity
+ * is effectively [0, 1].
  */
-export function filterByCategory(
-  products: Product[],
-  category: string
-): Product[] {
-  if (!category || category === "all") {
-    return products;
-  }
-
-  return products.filter((product) => product.category === category);
+export function scoreVisualSimilarity(
+  queryEmbedding: number[],
+  productEmbeddings: ProductEmbeddings,
+  allProducts: Product[]
+): ScoredProduct[] {
+  return allProducts
+    .filter((product) => productEmbeddings.has(product.id))
+    .map((product) => ({
+      product,
+      score: Math.max(
+        0,
+        cosineSimilarity(queryEmbedding, productEmbeddings.get(product.id)!)
+      ),
+    }))
+    .sort((a, b) => b.score - a.score);
 }
 
 /**
- * Get unique categories from products
+ * Score products by a blend of tag score and visual similarity, best first.
+ * Tag scores are normalized to [0, 1] against the best-scoring product
+ * so both signals are on the same scale before weighting.
  */
-export function getCategories(products: Product[]): string[] {
-  const categories = new Set(products.map((p) => p.category));
-  return ["all", ...Array.from(categories).sort()];
+export function scoreBlendedMatches(
+  predictions: Prediction[],
+  queryEmbedding: number[],
+  productEmbeddings: ProductEmbeddings,
+  allProducts: Product[],
+  visualWeight: number = 0.5,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+  colors: DetectedColor[] = []
+): ScoredProduct[] {
+  const tagScores = new Map(
+    calculateSimilarities(
+      predictions,
+      getTagIndex(allProducts, config.stopWords),
+      config,
+      colors
+    ).map((item) => [item.product, item.score])
+  );
+  const maxTagScore = Math.max(0, ...tagScores.values());
+
+  return allProducts
+    .map((product) => {
+      const score = tagScores.get(product) ?? 0;
+      const embedding = productEmbeddings.get(product.id);
+      // Feature vectors are post-ReLU, so similarity is effectively [0, 1]
+      const visualScore = embedding
+        ? Math.max(0, cosineSimilarity(queryEmbedding, embedding))
+        : 0;
+      const tagScore = maxTagScore > 0 ? score / maxTagScore : 0;
+
+      return {
+        product,
+        score: visualWeight * visualScore + (1 - visualWeight) * tagScore,
+      };
+    })
+    .filter((item) => item.score > 0)
+    .sort((a, b) => b.score - a.score);
 }
@@ -0,0 +1,180 @@
+import { Prediction } from "./imageClassifier";
+
+/**
+ * Rectangle within an image, in fractions of its width and height
+ */
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_REGION: Region = { x: 0, y: 0, width: 1, height: 1 };
+
+/**
+ * Predictions for one tile of a scene scan
+ */
+export interface TilePredictions {
+  region: Region;
+  predictions: Prediction[];
+}
+
+/**
+ * One object found by a scene scan: the tiles whose top label agreed,
+ * with their predictions averaged
+ */
+export interface DetectedObject {
+  /** Class name the tiles agreed on */
+  className: string;
+  /** Highest probability any tile gave the class */
+  confidence: number;
+  predictions: Prediction[];
+  regions: Region[];
+  /** Smallest region containing all of the object's tiles */
+  bounds: Region;
+}
+
+export interface SceneScanOptions {
+  /** Tiles per row and column */
+  gridSize: number;
+  /** Tile width and height as a fraction of the image; above 1 / gridSize tiles overlap */
+  tileSize: number;
+  /** Tiles whose top prediction is less probable than this are ignored */
+  minTileProbability: number;
+  maxObjects: number;
+}
+
+export const DEFAULT_SCENE_SCAN_OPTIONS: SceneScanOptions = {
+  gridSize: 3,
+  tileSize: 0.5,
+  minTileProbability: 0.2,
+  maxObjects: 4,
+};
+
+/**
+ * Regions smaller than this on either side are treated as stray clicks
+ */
+export const MIN_REGION_SIZE = 0.05;
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Clamp a region to the image and give it a positive width and height,
+ * whichever corner it was drawn from
+ */
+export function normalizeRegion(region: Region): Region {
+  const x1 = clamp01(Math.min(region.x, region.x + region.width));
+  const y1 = clamp01(Math.min(region.y, region.y + region.height));
+  const x2 = clamp01(Math.max(region.x, region.x + region.width));
+  const y2 = clamp01(Math.max(region.y, region.y + region.height));
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
+
+/**
+ * Smallest region containing all of the given regions
+ */
+export function getBoundingRegion(regions: Region[]): Region {
+  const x = Math.min(...regions.map((region) => region.x));
+  const y = Math.min(...regions.map((region) => region.y));
+  const right = Math.max(...regions.map((region) => region.x + region.width));
+  const bottom = Math.max(...regions.map((region) => region.y + region.height));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+/**
+ * Copy a region of a bitmap into a new bitmap. The source is left open.
+ */
+export function cropBitmap(
+  bitmap: ImageBitmap,
+  region: Region
+): Promise<ImageBitmap> {
+  const { x, y, width, height } = normalizeRegion(region);
+  return createImageBitmap(
+    bitmap,
+    Math.round(x * bitmap.width),
+    Math.round(y * bitmap.height),
+    Math.max(1, Math.round(width * bitmap.width)),
+    Math.max(1, Math.round(height * bitmap.height))
+  );
+}
+
+/**
+ * Evenly spaced, overlapping tiles covering the whole image, row by row
+ */
+export function getTileRegions(
+  options: SceneScanOptions = DEFAULT_SCENE_SCAN_OPTIONS
+): Region[] {
+  const { gridSize, tileSize } = options;
+  const step = gridSize > 1 ? (1 - tileSize) / (gridSize - 1) : 0;
+  const regions: Region[] = [];
+  for (let row = 0; row < gridSize; row++) {
+    for (let col = 0; col < gridSize; col++) {
+      regions.push({
+        x: col * step,
+        y: row * step,
+        width: tileSize,
+        height: tileSize,
+      });
+    }
+  }
+  return regions;
+}
+
+/**
+ * Group tile predictions into objects. Tiles are grouped by their top class
+ * name; each object's predictions average the probabilities of its tiles,
+ * so labels seen across the whole object outrank one tile's guess.
+ * Objects are ordered by confidence.
+ */
+export function groupTilePredictions(
+  tiles: TilePredictions[],
+  options: SceneScanOptions = DEFAULT_SCENE_SCAN_OPTIONS
+): DetectedObject[] {
+  const groups = new Map<string, TilePredictions[]>();
+  tiles.forEach((tile) => {
+    const top = tile.predictions[0];
+    if (!top || top.probability < options.minTileProbability) {
+      return;
+    }
+    groups.set(top.className, [...(groups.get(top.className) ?? []), tile]);
+  });
+
+  const objects = [...groups.entries()].map(([className, group]) => {
+    const totals = new Map<string, number>();
+    group.forEach(({ predictions }) =>
+      predictions.forEach(({ className: name, probability }) =>
+        totals.set(name, (totals.get(name) ?? 0) + probability)
+      )
+    );
+
+    return {
+      className,
+      confidence: Math.max(
+        ...group.map((tile) => tile.predictions[0].probability)
+      ),
+      predictions: [...totals.entries()]
+        .map(([name, total]) => ({
+          className: name,
+          probability: total / group.length,
+        }))
+        .sort((a, b) => b.probability - a.probability)
+        .slice(0, 10),
+      regions: group.map((tile) => tile.region),
+      bounds: getBoundingRegion(group.map((tile) => tile.region)),
+    };
+  });
+
+  console.log(
+    "[RegionSearch] Objects found:",
+    objects.map(
+      (object) => `${object.className} (${object.regions.length} tiles)`
+    )
+  );
+
+  return objects
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, options.maxObjects);
+}
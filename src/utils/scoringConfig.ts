@@ -0,0 +1,153 @@
+import { LabelExpansionConfig } from "./labelExpansion";
+import { DEFAULT_STOP_WORDS } from "./tagIndex";
+
+/**
+ * Tunable weights and thresholds used by the product matcher
+ */
+export interface ScoringConfig {
+  /**
+   * Multiplier by prediction rank (index 0 is the top prediction).
+   * The last entry applies to every lower rank.
+   */
+  rankMultipliers: number[];
+  /** Base points for each kind of match, scaled by probability and rank */
+  weights: {
+    exactTag: number;
+    partialTag: number;
+    exactName: number;
+    partialName: number;
+    category: number;
+    /**
+     * Boost for a product tagged with a color detected in the image, as a
+     * fraction of its prediction score, scaled by the color's share
+     */
+    color: number;
+    /**
+     * Boost for a product in a category the predictions point at, as a
+     * fraction of its prediction score, scaled by the category's probability
+     */
+    inferredCategory: number;
+  };
+  /** Products must score above this to be returned */
+  minScore: number;
+  /** The top result must score at least this for the match to count as confident */
+  confidentScore: number;
+  /** The top prediction must be at least this probable for a confident match */
+  confidentProbability: number;
+  /** The inferred category must be at least this probable to narrow results to it */
+  confidentCategoryProbability: number;
+  /** Predictions below this probability are ignored */
+  minProbability: number;
+  /** Prediction words must be at least this long to be matched */
+  minWordLength: number;
+  /** Both words must be at least this long for a partial (substring) match */
+  minPartialLength: number;
+  /** Expand predictions through the label taxonomy; null matches class names as-is */
+  labelExpansion: LabelExpansionConfig | null;
+  /** Words ignored in class names, tags and product names */
+  stopWords: readonly string[];
+  /**
+   * How much tag and name matches are scaled by token rarity (IDF):
+   * 0 scores every token alike, 1 scales points fully by rarity
+   */
+  idfWeight: number;
+}
+
+export type ScoringPreset = "strict" | "balanced" | "recall";
+
+export const SCORING_PRESETS: Record<ScoringPreset, ScoringConfig> = {
+  // Fewer, more confident results: ignores weak predictions and substring hits
+  strict: {
+    rankMultipliers: [5, 4, 3, 2],
+    weights: {
+      exactTag: 100,
+      partialTag: 5,
+      exactName: 150,
+      partialName: 10,
+      category: 5,
+      color: 0.2,
+      inferredCategory: 0.6,
+    },
+    minScore: 150,
+    confidentScore: 400,
+    confidentProbability: 0.35,
+    confidentCategoryProbability: 0.7,
+    minProbability: 0.05,
+    minWordLength: 3,
+    minPartialLength: 5,
+    labelExpansion: { synonymWeight: 0.8, broaderWeight: 0.3, maxDepth: 1 },
+    stopWords: DEFAULT_STOP_WORDS,
+    idfWeight: 0.5,
+  },
+  // Default behaviour
+  balanced: {
+    rankMultipliers: [5, 4, 3, 2],
+    weights: {
+      exactTag: 100,
+      partialTag: 10,
+      exactName: 150,
+      partialName: 15,
+      category: 5,
+      color: 0.3,
+      inferredCategory: 0.5,
+    },
+    minScore: 80,
+    confidentScore: 250,
+    confidentProbability: 0.2,
+    confidentCategoryProbability: 0.6,
+    minProbability: 0,
+    minWordLength: 3,
+    minPartialLength: 4,
+    labelExpansion: { synonymWeight: 0.8, broaderWeight: 0.5, maxDepth: 2 },
+    stopWords: DEFAULT_STOP_WORDS,
+    idfWeight: 0.5,
+  },
+  // More results: flatter rank weighting and a low cutoff
+  recall: {
+    rankMultipliers: [4, 3, 3, 2],
+    weights: {
+      exactTag: 100,
+      partialTag: 20,
+      exactName: 150,
+      partialName: 25,
+      category: 10,
+      color: 0.4,
+      inferredCategory: 0.3,
+    },
+    minScore: 20,
+    confidentScore: 150,
+    confidentProbability: 0.1,
+    confidentCategoryProbability: 0.5,
+    minProbability: 0,
+    minWordLength: 3,
+    minPartialLength: 4,
+    labelExpansion: { synonymWeight: 1, broaderWeight: 0.6, maxDepth: 3 },
+    stopWords: DEFAULT_STOP_WORDS,
+    idfWeight: 0.3,
+  },
+};
+
+export const DEFAULT_SCORING_CONFIG = SCORING_PRESETS.balanced;
+
+/**
+ * Resolve a preset by name, optionally overriding individual settings
+ */
+export function getScoringConfig(
+  preset: ScoringPreset = "balanced",
+  overrides: Partial<ScoringConfig> = {}
+): ScoringConfig {
+  const base = SCORING_PRESETS[preset];
+  return {
+    ...base,
+    ...overrides,
+    weights: { ...base.weights, ...overrides.weights },
+  };
+}
+
+/**
+ * Multiplier for a prediction rank under the given config
+ */
+export function getRankMultiplier(rank: number, config: ScoringConfig): number {
+  const { rankMultipliers } = config;
+  return rankMultipliers[Math.min(rank, rankMultipliers.length - 1)] ?? 1;
+}
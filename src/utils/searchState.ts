@@ -0,0 +1,139 @@
+import { Prediction } from "./imageClassifier";
+import { EMPTY_FACET_FILTERS, FacetFilters, SortOption } from "./facets";
+
+/**
+ * Everything needed to reproduce a result page, minus the image itself:
+ * the detected labels stand in for the photo
+ */
+export interface SearchState {
+  query: string;
+  filters: FacetFilters;
+  sort: SortOption;
+  labels: Prediction[];
+}
+
+export const EMPTY_SEARCH_STATE: SearchState = {
+  query: "",
+  filters: EMPTY_FACET_FILTERS,
+  sort: "relevance",
+  labels: [],
+};
+
+const SORT_OPTIONS: SortOption[] = [
+  "relevance",
+  "price-asc",
+  "price-desc",
+  "name",
+];
+
+/** Shape of the `searchParams` Next.js passes to server pages */
+export type SearchParamsRecord = Record<string, string | string[] | undefined>;
+
+export function toUrlSearchParams(record: SearchParamsRecord): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(record).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : value === undefined ? [] : [value]).forEach(
+      (item) => params.append(key, item)
+    );
+  });
+  return params;
+}
+
+function readPrice(value: string | null): number | null {
+  if (value === null || value.trim() === "") {
+    return null;
+  }
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+}
+
+// Labels are stored as "<probability>:<class name>"; class names never contain ":"
+function parseLabel(value: string): Prediction | null {
+  const separator = value.indexOf(":");
+  if (separator === -1) {
+    return null;
+  }
+  const probability = Number(value.slice(0, separator));
+  const className = value.slice(separator + 1).trim();
+  if (!className || !Number.isFinite(probability)) {
+    return null;
+  }
+  return { className, probability: Math.min(1, Math.max(0, probability)) };
+}
+
+/**
+ * Read search state from URL parameters, ignoring anything malformed:
+ * `q`, `category` (repeatable), `minPrice`, `maxPrice`, `tag` (repeatable),
+ * `sort` and `label` (repeatable)
+ */
+export function parseSearchState(params: URLSearchParams): SearchState {
+  const minPrice = readPrice(params.get("minPrice"));
+  const maxPrice = readPrice(params.get("maxPrice"));
+  const sort = params.get("sort") as SortOption | null;
+
+  return {
+    query: params.get("q") ?? "",
+    filters: {
+      categories: params.getAll("category").filter(Boolean),
+      priceRange:
+        minPrice === null && maxPrice === null
+          ? null
+          : [minPrice ?? 0, Math.max(maxPrice ?? Infinity, minPrice ?? 0)],
+      tags: params.getAll("tag").filter(Boolean),
+    },
+    sort: sort && SORT_OPTIONS.includes(sort) ? sort : "relevance",
+    labels: params
+      .getAll("label")
+      .map(parseLabel)
+      .filter((label): label is Prediction => label !== null),
+  };
+}
+
+/**
+ * Write search state as URL parameters, leaving out defaults
+ */
+export function serializeSearchState(state: SearchState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (state.query) {
+    params.set("q", state.query);
+  }
+  state.filters.categories.forEach((category) =>
+    params.append("category", category)
+  );
+  if (state.filters.priceRange) {
+    const [min, max] = state.filters.priceRange;
+    params.set("minPrice", String(min));
+    if (Number.isFinite(max)) {
+      params.set("maxPrice", String(max));
+    }
+  }
+  state.filters.tags.forEach((tag) => params.append("tag", tag));
+  if (state.sort !== "relevance") {
+    params.set("sort", state.sort);
+  }
+  state.labels.forEach((label) =>
+    params.append(
+      "label",
+      `${Number(label.probability.toFixed(4))}:${label.className}`
+    )
+  );
+  return params;
+}
+
+/**
+ * Relative URL for a path plus serialized search state
+ */
+export function getSearchUrl(pathname: string, state: SearchState): string {
+  const query = serializeSearchState(state).toString();
+  return query ? `${pathname}?${query}` : pathname;
+}
+
+/** Home page parameter naming a catalog product whose image to search with */
+export const IMAGE_PRODUCT_PARAM = "image";
+
+/**
+ * Home page URL that runs an image search with a catalog product's photo
+ */
+export function getImageSearchUrl(productId: number): string {
+  return `/?${IMAGE_PRODUCT_PARAM}=${productId}`;
+}
@@ -0,0 +1,184 @@
+/**
+ * Server-side classification for clients that can't run the model
+ * themselves. Reads the same self-hosted model files the browser uses
+ * straight from /public, so nothing is fetched from a CDN. Node only.
+ */
+import { access, readFile } from "fs/promises";
+import path from "path";
+import * as tf from "@tensorflow/tfjs";
+import sharp from "sharp";
+import { getClassifierConfig, getInputSize } from "@/config/classifier";
+import {
+  Classifier,
+  createClassifier,
+  ModelFileSource,
+  ModelFilesMissingError,
+} from "./classifiers";
+import { Prediction } from "./imageClassifier";
+
+const PUBLIC_DIR = path.join(process.cwd(), "public");
+
+// Uploads are center-cropped to this size, as in the browser worker
+const INPUT_SIZE = getInputSize(getClassifierConfig());
+
+let classifier: Classifier | null = null;
+let pendingLoad: Promise<Classifier> | null = null;
+
+/**
+ * The image could not be decoded, e.g. a corrupt file or an unsupported format
+ */
+export class ImageDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageDecodeError";
+  }
+}
+
+/**
+ * The model files are missing or failed to load
+ */
+export class ModelUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelUnavailableError";
+  }
+}
+
+// Config URLs like /models/x/model.json map to files under /public
+function resolvePublicFile(url: string): string {
+  const filePath = path.join(PUBLIC_DIR, url);
+  if (!filePath.startsWith(PUBLIC_DIR + path.sep)) {
+    throw new Error(`Model file outside /public: ${url}`);
+  }
+  return filePath;
+}
+
+/**
+ * Model files read from the local /public directory
+ */
+export const fileModelSource: ModelFileSource = {
+  async loadModel(modelUrl, cacheKey, load) {
+    const modelPath = resolvePublicFile(modelUrl);
+    const modelDir = path.dirname(modelPath);
+    try {
+      await access(modelPath);
+    } catch {
+      throw new ModelFilesMissingError(
+        `Model files not found at ${path.relative(process.cwd(), modelPath)}. Run \`npm run models:download\` to fetch them.`
+      );
+    }
+
+    return load({
+      async load() {
+        const modelJson = JSON.parse(
+          await readFile(modelPath, "utf8")
+        ) as tf.io.ModelJSON;
+        return tf.io.getModelArtifactsForJSON(modelJson, async (manifest) => {
+          const shards = await Promise.all(
+            manifest
+              .flatMap((group) => group.paths)
+              .map((shard) => readFile(path.join(modelDir, shard)))
+          );
+          return [
+            tf.io.getWeightSpecs(manifest),
+            tf.io.CompositeArrayBuffer.join(
+              shards.map((shard) =>
+                shard.buffer.slice(
+                  shard.byteOffset,
+                  shard.byteOffset + shard.byteLength
+                )
+              )
+            ),
+          ];
+        });
+      },
+    });
+  },
+
+  async readJson(url) {
+    return JSON.parse(await readFile(resolvePublicFile(url), "utf8"));
+  },
+};
+
+async function getServerClassifier(): Promise<Classifier> {
+  if (classifier) {
+    return classifier;
+  }
+
+  if (!pendingLoad) {
+    pendingLoad = (async () => {
+      const config = getClassifierConfig();
+      console.log("[ServerClassifier] Loading classifier:", config.name);
+      await tf.ready();
+      console.log("[ServerClassifier] TensorFlow.js backend:", tf.getBackend());
+
+      const loaded = createClassifier(config, fileModelSource);
+      try {
+        await loaded.load();
+      } catch (error) {
+        throw new ModelUnavailableError(
+          `Classifier ${config.name} could not be loaded: ${(error as Error).message}`
+        );
+      }
+      classifier = loaded;
+      console.log("[ServerClassifier] Classifier loaded successfully");
+      return loaded;
+    })().finally(() => {
+      pendingLoad = null;
+    });
+  }
+
+  return pendingLoad;
+}
+
+/**
+ * Decode an uploaded image into RGBA pixels, upright and center-cropped to
+ * the model's input size
+ */
+export async function decodeImage(image: Uint8Array): Promise<tf.PixelData> {
+  try {
+    const { data, info } = await sharp(image)
+      .rotate()
+      .resize(INPUT_SIZE, INPUT_SIZE, { fit: "cover", position: "centre" })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return {
+      data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+      width: info.width,
+      height: info.height,
+    };
+  } catch (error) {
+    throw new ImageDecodeError(
+      `Could not decode image: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Classify an uploaded image file, returning the same top 10 predictions
+ * as classifyImage in the browser
+ */
+export async function classifyImageOnServer(
+  image: Uint8Array
+): Promise<Prediction[]> {
+  const pixels = await decodeImage(image);
+  const model = await getServerClassifier();
+
+  console.time("[ServerClassifier] Classification time");
+  const predictions = await model.classify(pixels, 10);
+  console.timeEnd("[ServerClassifier] Classification time");
+  console.log("[ServerClassifier] Predictions:", predictions);
+
+  return predictions;
+}
+
+/**
+ * Feature vector of an image file, the same one the browser worker computes
+ * for visual search
+ */
+export async function embedImageOnServer(image: Uint8Array): Promise<number[]> {
+  const pixels = await decodeImage(image);
+  const model = await getServerClassifier();
+  return model.embed(pixels);
+}
@@ -0,0 +1,251 @@
+import { Product } from "@/data/products";
+
+/**
+ * Where a token occurs in the catalog. `fieldIndex` is the tag position for
+ * tag tokens (0 for name tokens) and `tokenIndex` the position of the token
+ * within that tag or name, so callers can replay matches in catalog order.
+ */
+export interface Posting {
+  productIndex: number;
+  field: "tag" | "name";
+  fieldIndex: number;
+  tokenIndex: number;
+}
+
+/**
+ * Prebuilt lookup structure over a product list:
+ * - `tokens`: exact token -> every position it occurs at
+ * - `trigrams`: 3-character gram -> tokens containing it (for substring lookups)
+ * - `categories`: lowercased category -> product indices
+ * - `documentFrequency`: token -> number of products it occurs in
+ */
+export interface TagIndex {
+  products: Product[];
+  tokens: Map<string, Posting[]>;
+  trigrams: Map<string, Set<string>>;
+  categories: Map<string, number[]>;
+  documentFrequency: Map<string, number>;
+  /** Stop words left out of the index */
+  stopWords: readonly string[];
+}
+
+/**
+ * Boilerplate words that appear across unrelated products and say nothing
+ * about what is in a photo
+ */
+export const DEFAULT_STOP_WORDS: readonly string[] = [
+  "and",
+  "the",
+  "for",
+  "with",
+  "set",
+  "can",
+  "new",
+  "latest",
+  "popular",
+  "trending",
+  "bestseller",
+  "must-have",
+  "essential",
+  "everyday",
+  "gift",
+  "present",
+  "premium",
+  "quality",
+  "modern",
+  "classic",
+];
+
+const indexCache = new WeakMap<Product[], TagIndex>();
+
+/**
+ * Split a class name or tag into the full lowercased phrase plus its words,
+ * dropping stop words
+ */
+export function tokenizeClassName(
+  className: string,
+  stopWords: readonly string[] = DEFAULT_STOP_WORDS
+): string[] {
+  const original = className.trim();
+
+  // Split by commas or spaces
+  const parts = className
+    .toLowerCase()
+    .split(/[\s,]+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  // If original is not already in lowercase, add it at the beginning
+  return [original.toLowerCase(), ...parts].filter(
+    (token) => !stopWords.includes(token)
+  );
+}
+
+function getTrigrams(word: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i + 3 <= word.length; i++) {
+    grams.push(word.slice(i, i + 3));
+  }
+  return grams;
+}
+
+function addPosting(index: TagIndex, token: string, posting: Posting): void {
+  let postings = index.tokens.get(token);
+  if (!postings) {
+    postings = [];
+    index.tokens.set(token, postings);
+
+    for (const gram of getTrigrams(token)) {
+      let gramTokens = index.trigrams.get(gram);
+      if (!gramTokens) {
+        gramTokens = new Set();
+        index.trigrams.set(gram, gramTokens);
+      }
+      gramTokens.add(token);
+    }
+  }
+  postings.push(posting);
+}
+
+/**
+ * Build an inverted index over product tags, names and categories
+ */
+export function buildTagIndex(
+  allProducts: Product[],
+  stopWords: readonly string[] = DEFAULT_STOP_WORDS
+): TagIndex {
+  console.log("[TagIndex] Building index for", allProducts.length, "products");
+  console.time("[TagIndex] Build time");
+
+  const index: TagIndex = {
+    products: allProducts,
+    tokens: new Map(),
+    trigrams: new Map(),
+    categories: new Map(),
+    documentFrequency: new Map(),
+    stopWords,
+  };
+
+  allProducts.forEach((product, productIndex) => {
+    product.tags.forEach((tag, tagIndex) => {
+      tokenizeClassName(tag, stopWords).forEach((token, tokenIndex) => {
+        addPosting(index, token, {
+          productIndex,
+          field: "tag",
+          fieldIndex: tagIndex,
+          tokenIndex,
+        });
+      });
+    });
+
+    tokenizeClassName(product.name, stopWords).forEach((token, tokenIndex) => {
+      addPosting(index, token, {
+        productIndex,
+        field: "name",
+        fieldIndex: 0,
+        tokenIndex,
+      });
+    });
+
+    const productTokens = new Set(
+      [product.name, ...product.tags].flatMap((text) =>
+        tokenizeClassName(text, stopWords)
+      )
+    );
+    productTokens.forEach((token) => {
+      index.documentFrequency.set(
+        token,
+        (index.documentFrequency.get(token) ?? 0) + 1
+      );
+    });
+
+    const category = product.category.toLowerCase();
+    const categoryProducts = index.categories.get(category) ?? [];
+    categoryProducts.push(productIndex);
+    index.categories.set(category, categoryProducts);
+  });
+
+  console.timeEnd("[TagIndex] Build time");
+  console.log("[TagIndex] Distinct tokens:", index.tokens.size);
+
+  return index;
+}
+
+/**
+ * Get the index for a product list, building it on first use and again
+ * whenever a different stop-word list is requested
+ */
+export function getTagIndex(
+  allProducts: Product[],
+  stopWords: readonly string[] = DEFAULT_STOP_WORDS
+): TagIndex {
+  let index = indexCache.get(allProducts);
+  if (!index || index.stopWords !== stopWords) {
+    index = buildTagIndex(allProducts, stopWords);
+    indexCache.set(allProducts, index);
+  }
+  return index;
+}
+
+/**
+ * Inverse document frequency of a token scaled to [0, 1]: 1 for a token
+ * only one product has, approaching 0 for tokens every product shares
+ */
+export function getTokenRarity(index: TagIndex, token: string): number {
+  const total = index.products.length;
+  const frequency = index.documentFrequency.get(token) ?? 0;
+  if (total === 0 || frequency === 0) {
+    return 1;
+  }
+  return Math.log(1 + total / frequency) / Math.log(1 + total);
+}
+
+/**
+ * Postings for a token that matches `word` exactly
+ */
+export function lookupExact(index: TagIndex, word: string): Posting[] {
+  return index.tokens.get(word) ?? [];
+}
+
+/**
+ * Indexed tokens that partially match `word`: either the token contains the
+ * word or the word contains the token. Exact matches are excluded.
+ */
+export function lookupPartial(
+  index: TagIndex,
+  word: string,
+  minLength: number
+): string[] {
+  const matches = new Set<string>();
+  if (word.length < minLength) {
+    return [];
+  }
+
+  // Tokens containing the word: intersect trigram sets, then verify
+  const grams = getTrigrams(word);
+  if (grams.length > 0) {
+    const gramSets = grams
+      .map((gram) => index.trigrams.get(gram))
+      .sort((a, b) => (a?.size ?? 0) - (b?.size ?? 0));
+
+    if (gramSets.every(Boolean)) {
+      for (const token of gramSets[0]!) {
+        if (token !== word && token.includes(word)) {
+          matches.add(token);
+        }
+      }
+    }
+  }
+
+  // Tokens contained in the word: look up each of its substrings
+  for (let length = minLength; length < word.length; length++) {
+    for (let start = 0; start + length <= word.length; start++) {
+      const sub = word.slice(start, start + length);
+      if (index.tokens.has(sub)) {
+        matches.add(sub);
+      }
+    }
+  }
+
+  return [...matches];
+}
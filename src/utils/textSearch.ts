@@ -0,0 +1,296 @@
+import { Product } from "@/data/products";
+
+export type SearchField = "name" | "tags" | "category" | "description";
+
+const SEARCH_FIELDS: SearchField[] = [
+  "name",
+  "tags",
+  "category",
+  "description",
+];
+
+/**
+ * BM25 parameters, field boosts and how much looser term matches count
+ */
+export interface TextSearchOptions {
+  fieldBoosts: Record<SearchField, number>;
+  /** Term frequency saturation */
+  k1: number;
+  /** Field length normalization, 0 (none) to 1 (full) */
+  b: number;
+  /** Weight of a catalog word that starts with the query term */
+  prefixWeight: number;
+  /** Weight of a catalog word within the allowed edit distance */
+  fuzzyWeight: number;
+}
+
+export const DEFAULT_TEXT_SEARCH_OPTIONS: TextSearchOptions = {
+  fieldBoosts: { name: 3, tags: 2, category: 1.5, description: 1 },
+  k1: 1.2,
+  b: 0.75,
+  prefixWeight: 0.8,
+  fuzzyWeight: 0.6,
+};
+
+/**
+ * A product matching a text query
+ */
+export interface TextMatch {
+  product: Product;
+  score: number;
+  /** Query terms that found this product */
+  queryTerms: string[];
+  /** Catalog words that matched, for highlighting */
+  matchedWords: string[];
+}
+
+/**
+ * Per-word term frequencies by field plus field lengths, over a product list
+ */
+interface SearchIndex {
+  products: Product[];
+  /** word -> product index -> occurrences per field */
+  postings: Map<string, Map<number, Record<SearchField, number>>>;
+  fieldLengths: Record<SearchField, number[]>;
+  averageLengths: Record<SearchField, number>;
+}
+
+const searchIndexCache = new WeakMap<Product[], SearchIndex>();
+
+/**
+ * Lowercase words made of letters and digits
+ */
+export function tokenizeText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function getFieldText(product: Product, field: SearchField): string {
+  return field === "tags" ? product.tags.join(" ") : product[field];
+}
+
+function buildSearchIndex(allProducts: Product[]): SearchIndex {
+  console.log(
+    "[TextSearch] Building index for",
+    allProducts.length,
+    "products"
+  );
+
+  const index: SearchIndex = {
+    products: allProducts,
+    postings: new Map(),
+    fieldLengths: { name: [], tags: [], category: [], description: [] },
+    averageLengths: { name: 0, tags: 0, category: 0, description: 0 },
+  };
+
+  allProducts.forEach((product, productIndex) => {
+    SEARCH_FIELDS.forEach((field) => {
+      const words = tokenizeText(getFieldText(product, field));
+      index.fieldLengths[field].push(words.length);
+
+      words.forEach((word) => {
+        let products = index.postings.get(word);
+        if (!products) {
+          products = new Map();
+          index.postings.set(word, products);
+        }
+        let counts = products.get(productIndex);
+        if (!counts) {
+          counts = { name: 0, tags: 0, category: 0, description: 0 };
+          products.set(productIndex, counts);
+        }
+        counts[field]++;
+      });
+    });
+  });
+
+  SEARCH_FIELDS.forEach((field) => {
+    const lengths = index.fieldLengths[field];
+    const total = lengths.reduce((sum, length) => sum + length, 0);
+    index.averageLengths[field] =
+      lengths.length > 0 ? total / lengths.length : 0;
+  });
+
+  console.log("[TextSearch] Distinct words:", index.postings.size);
+  return index;
+}
+
+function getSearchIndex(allProducts: Product[]): SearchIndex {
+  let index = searchIndexCache.get(allProducts);
+  if (!index) {
+    index = buildSearchIndex(allProducts);
+    searchIndexCache.set(allProducts, index);
+  }
+  return index;
+}
+
+/**
+ * Typos tolerated for a query term: none for short words, where one edit
+ * turns most words into other real words
+ */
+function getMaxEditDistance(term: string): number {
+  if (term.length < 5) {
+    return 0;
+  }
+  return term.length < 8 ? 1 : 2;
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Catalog words a query term can stand for, with how much each counts:
+ * the word itself, words it is a prefix of, and near misses
+ */
+function expandQueryTerm(
+  index: SearchIndex,
+  term: string,
+  options: TextSearchOptions
+): Map<string, number> {
+  const variants = new Map<string, number>();
+  const maxDistance = getMaxEditDistance(term);
+
+  index.postings.forEach((_, word) => {
+    if (word === term) {
+      variants.set(word, 1);
+    } else if (term.length >= 2 && word.startsWith(term)) {
+      variants.set(word, options.prefixWeight);
+    } else if (
+      maxDistance > 0 &&
+      editDistance(term, word, maxDistance) <= maxDistance
+    ) {
+      variants.set(word, options.fuzzyWeight);
+    }
+  });
+
+  return variants;
+}
+
+/**
+ * BM25 score of one catalog word for one product, summed over boosted fields
+ */
+function scoreWord(
+  index: SearchIndex,
+  word: string,
+  productIndex: number,
+  options: TextSearchOptions
+): number {
+  const products = index.postings.get(word)!;
+  const counts = products.get(productIndex)!;
+  const total = index.products.length;
+  const idf = Math.log(
+    1 + (total - products.size + 0.5) / (products.size + 0.5)
+  );
+
+  let score = 0;
+  SEARCH_FIELDS.forEach((field) => {
+    const frequency = counts[field];
+    if (frequency === 0) {
+      return;
+    }
+    const average = index.averageLengths[field] || 1;
+    const lengthNorm =
+      1 -
+      options.b +
+      (options.b * index.fieldLengths[field][productIndex]) / average;
+    score +=
+      options.fieldBoosts[field] *
+      ((frequency * (options.k1 + 1)) / (frequency + options.k1 * lengthNorm));
+  });
+
+  return idf * score;
+}
+
+/**
+ * Rank products against a free-text query, best first.
+ *
+ * Each query term counts once per product, through its best-scoring exact,
+ * prefix or fuzzy variant; every variant found is reported for highlighting.
+ * Scores are scaled by the share of query terms matched, so products
+ * containing every word come before partial matches.
+ */
+export function searchProducts(
+  allProducts: Product[],
+  query: string,
+  options: TextSearchOptions = DEFAULT_TEXT_SEARCH_OPTIONS
+): TextMatch[] {
+  const terms = [...new Set(tokenizeText(query))];
+  if (terms.length === 0) {
+    return [];
+  }
+
+  console.time("[TextSearch] Search time");
+  const index = getSearchIndex(allProducts);
+  const matches = new Map<number, TextMatch>();
+
+  terms.forEach((term) => {
+    const best = new Map<number, { score: number; words: string[] }>();
+
+    expandQueryTerm(index, term, options).forEach((weight, word) => {
+      index.postings.get(word)!.forEach((_, productIndex) => {
+        const score = weight * scoreWord(index, word, productIndex, options);
+        const current = best.get(productIndex);
+        if (!current) {
+          best.set(productIndex, { score, words: [word] });
+        } else {
+          current.score = Math.max(current.score, score);
+          current.words.push(word);
+        }
+      });
+    });
+
+    best.forEach(({ score, words }, productIndex) => {
+      const match = matches.get(productIndex) ?? {
+        product: index.products[productIndex],
+        score: 0,
+        queryTerms: [],
+        matchedWords: [],
+      };
+      match.score += score;
+      match.queryTerms.push(term);
+      match.matchedWords.push(...words);
+      matches.set(productIndex, match);
+    });
+  });
+
+  const results = [...matches.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, match]) => ({
+      ...match,
+      score: (match.score * match.queryTerms.length) / terms.length,
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  console.timeEnd("[TextSearch] Search time");
+  console.log("[TextSearch] Query terms:", terms, "matches:", results.length);
+
+  return results;
+}
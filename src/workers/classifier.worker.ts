@@ -0,0 +1,176 @@
+/**
+ * Runs MobileNet model loading and inference off the main thread.
+ * Requests are handled one at a time; a request cancelled before or between
+ * its stages is dropped and reported as "cancelled" instead of a result.
+ * Every image is center-cropped to the model's square input first.
+ */
+import { getClassifierConfig, getInputSize } from "@/config/classifier";
+import {
+  classifyImage,
+  getImageEmbedding,
+  loadModel,
+  Prediction,
+} from "@/utils/imageClassifier";
+import {
+  AUGMENTED_CROPS,
+  CENTER_CROP,
+  cropToSquare,
+} from "@/utils/imagePreprocessing";
+import { averagePredictions } from "@/utils/predictionSmoothing";
+import {
+  ClassificationStage,
+  ClassifierRequest,
+  ClassifierResponse,
+} from "./classifierProtocol";
+
+interface WorkerScope {
+  postMessage(message: ClassifierResponse): void;
+  onmessage: ((event: MessageEvent<ClassifierRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+const inputSize = getInputSize(getClassifierConfig());
+
+const cancelledRequests = new Set<number>();
+let modelReady: Promise<void> | null = null;
+let queue: Promise<void> = Promise.resolve();
+
+function post(message: ClassifierResponse): void {
+  scope.postMessage(message);
+}
+
+function ensureModel(): Promise<void> {
+  if (!modelReady) {
+    post({ type: "load-state", state: "loading" });
+    modelReady = loadModel().then(
+      () => post({ type: "load-state", state: "ready" }),
+      (error: unknown) => {
+        modelReady = null;
+        post({
+          type: "load-state",
+          state: "error",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    );
+  }
+  return modelReady;
+}
+
+/**
+ * Acknowledge a cancelled request; returns true if it should be dropped
+ */
+function dropIfCancelled(requestId: number): boolean {
+  if (!cancelledRequests.delete(requestId)) {
+    return false;
+  }
+  post({ type: "cancelled", requestId });
+  return true;
+}
+
+/**
+ * Report progress, or return false if the request was cancelled meanwhile
+ */
+function advance(
+  requestId: number,
+  stage: ClassificationStage,
+  progress: number
+): boolean {
+  if (dropIfCancelled(requestId)) {
+    return false;
+  }
+  post({ type: "progress", requestId, stage, progress });
+  return true;
+}
+
+async function handleInference(
+  requestId: number,
+  bitmap: ImageBitmap,
+  classify: boolean,
+  includeEmbedding: boolean,
+  augment: boolean = false
+): Promise<void> {
+  const crops: ImageBitmap[] = [];
+  try {
+    if (!advance(requestId, "loading-model", 0.1)) return;
+    await ensureModel();
+
+    const input = cropToSquare(bitmap, inputSize, CENTER_CROP);
+    crops.push(input);
+
+    let predictions: Prediction[] = [];
+    if (classify) {
+      const variants = augment ? AUGMENTED_CROPS : [CENTER_CROP];
+      const views: Prediction[][] = [];
+      for (const [index, variant] of variants.entries()) {
+        const progress = 0.4 + (0.4 * index) / variants.length;
+        if (!advance(requestId, "classifying", progress)) return;
+        const crop =
+          variant === CENTER_CROP
+            ? input
+            : cropToSquare(bitmap, inputSize, variant);
+        if (crop !== input) {
+          crops.push(crop);
+        }
+        views.push(await classifyImage(crop));
+      }
+      predictions = augment ? averagePredictions(views) : views[0];
+    }
+
+    let embedding: number[] | null = null;
+    if (includeEmbedding) {
+      if (!advance(requestId, "embedding", 0.8)) return;
+      embedding = await getImageEmbedding(input);
+    }
+
+    if (dropIfCancelled(requestId)) return;
+    post({ type: "result", requestId, predictions, embedding });
+  } catch (error) {
+    post({
+      type: "error",
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    bitmap.close();
+    crops.forEach((crop) => crop.close());
+  }
+}
+
+scope.onmessage = (event) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case "load":
+      ensureModel().catch(() => {
+        // Already reported through load-state
+      });
+      break;
+    case "cancel":
+      cancelledRequests.add(request.requestId);
+      break;
+    case "classify":
+      post({
+        type: "progress",
+        requestId: request.requestId,
+        stage: "queued",
+        progress: 0,
+      });
+      queue = queue.then(() =>
+        handleInference(
+          request.requestId,
+          request.bitmap,
+          true,
+          request.includeEmbedding,
+          request.augment
+        )
+      );
+      break;
+    case "embed":
+      queue = queue.then(() =>
+        handleInference(request.requestId, request.bitmap, false, true)
+      );
+      break;
+  }
+};
@@ -0,0 +1,45 @@
+import { Prediction } from "@/utils/imageClassifier";
+
+export type ModelLoadState = "idle" | "loading" | "ready" | "error";
+
+/**
+ * Stages a request goes through, reported back as progress
+ */
+export type ClassificationStage =
+  "queued" | "loading-model" | "classifying" | "embedding";
+
+/**
+ * Messages from the page to the classifier worker
+ */
+export type ClassifierRequest =
+  | { type: "load" }
+  | {
+      type: "classify";
+      requestId: number;
+      bitmap: ImageBitmap;
+      includeEmbedding: boolean;
+      /** Average predictions over flipped and cropped views */
+      augment: boolean;
+    }
+  | { type: "embed"; requestId: number; bitmap: ImageBitmap }
+  | { type: "cancel"; requestId: number };
+
+/**
+ * Messages from the classifier worker back to the page
+ */
+export type ClassifierResponse =
+  | { type: "load-state"; state: ModelLoadState; error?: string }
+  | {
+      type: "progress";
+      requestId: number;
+      stage: ClassificationStage;
+      progress: number;
+    }
+  | {
+      type: "result";
+      requestId: number;
+      predictions: Prediction[];
+      embedding: number[] | null;
+    }
+  | { type: "cancelled"; requestId: number }
+  | { type: "error"; requestId: number; error: string };